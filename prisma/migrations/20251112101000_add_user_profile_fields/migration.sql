@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "avatarUrl" TEXT,
+ADD COLUMN     "bio" TEXT,
+ADD COLUMN     "displayName" TEXT,
+ADD COLUMN     "location" TEXT,
+ADD COLUMN     "socialLinks" JSONB,
+ADD COLUMN     "website" TEXT;
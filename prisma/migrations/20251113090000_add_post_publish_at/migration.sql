@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN     "publishAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "posts_published_publishAt_idx" ON "posts"("published", "publishAt");
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "post_revisions" (
+    "id" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "metaTitle" TEXT,
+    "metaDescription" TEXT,
+    "ogImage" TEXT,
+    "categoryId" TEXT,
+    "tagIds" TEXT[],
+    "editorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "post_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "post_revisions_postId_number_key" ON "post_revisions"("postId", "number");
+
+-- AddForeignKey
+ALTER TABLE "post_revisions" ADD CONSTRAINT "post_revisions_postId_fkey" FOREIGN KEY ("postId") REFERENCES "posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "post_revisions" ADD CONSTRAINT "post_revisions_editorId_fkey" FOREIGN KEY ("editorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "posts_deletedAt_idx" ON "posts"("deletedAt");
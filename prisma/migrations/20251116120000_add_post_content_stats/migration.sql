@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN     "excerpt" TEXT,
+ADD COLUMN     "hasCustomExcerpt" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "readingTimeMinutes" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "wordCount" INTEGER NOT NULL DEFAULT 0;
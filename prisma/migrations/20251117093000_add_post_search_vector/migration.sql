@@ -0,0 +1,72 @@
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN "searchVector" tsvector;
+
+-- CreateIndex
+CREATE INDEX "posts_searchVector_idx" ON "posts" USING GIN ("searchVector");
+
+-- Weighted document for a post: title (A), tag names (B), content (C)
+CREATE FUNCTION post_search_vector(post_id TEXT, post_title TEXT, post_content TEXT) RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(post_title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce((
+      SELECT string_agg(t."name", ' ')
+      FROM "post_tags" pt
+      JOIN "tags" t ON t."id" = pt."tagId"
+      WHERE pt."postId" = post_id
+    ), '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(post_content, '')), 'C');
+$$ LANGUAGE SQL STABLE;
+
+-- Keep the vector current when a post's title or content changes
+CREATE FUNCTION posts_search_vector_trigger() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" := post_search_vector(NEW."id", NEW."title", NEW."content");
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "posts_search_vector_update"
+  BEFORE INSERT OR UPDATE OF "title", "content" ON "posts"
+  FOR EACH ROW EXECUTE FUNCTION posts_search_vector_trigger();
+
+-- ...when tags are attached to or removed from a post
+CREATE FUNCTION post_tags_search_vector_trigger() RETURNS trigger AS $$
+DECLARE
+  affected_post_id TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    affected_post_id := OLD."postId";
+  ELSE
+    affected_post_id := NEW."postId";
+  END IF;
+
+  UPDATE "posts"
+  SET "searchVector" = post_search_vector("id", "title", "content")
+  WHERE "id" = affected_post_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "post_tags_search_vector_update"
+  AFTER INSERT OR DELETE ON "post_tags"
+  FOR EACH ROW EXECUTE FUNCTION post_tags_search_vector_trigger();
+
+-- ...and when a tag is renamed
+CREATE FUNCTION tags_search_vector_trigger() RETURNS trigger AS $$
+BEGIN
+  UPDATE "posts" p
+  SET "searchVector" = post_search_vector(p."id", p."title", p."content")
+  FROM "post_tags" pt
+  WHERE pt."postId" = p."id" AND pt."tagId" = NEW."id";
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "tags_search_vector_update"
+  AFTER UPDATE OF "name" ON "tags"
+  FOR EACH ROW EXECUTE FUNCTION tags_search_vector_trigger();
+
+-- Backfill existing posts
+UPDATE "posts" SET "searchVector" = post_search_vector("id", "title", "content");
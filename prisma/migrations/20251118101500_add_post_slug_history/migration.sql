@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "post_slug_history" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "post_slug_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "post_slug_history_slug_key" ON "post_slug_history"("slug");
+
+-- CreateIndex
+CREATE INDEX "post_slug_history_postId_idx" ON "post_slug_history"("postId");
+
+-- AddForeignKey
+ALTER TABLE "post_slug_history" ADD CONSTRAINT "post_slug_history_postId_fkey" FOREIGN KEY ("postId") REFERENCES "posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "tag_follows" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "tagId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tag_follows_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "category_follows" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "category_follows_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "posts_authorId_createdAt_idx" ON "posts"("authorId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "posts_categoryId_idx" ON "posts"("categoryId");
+
+-- CreateIndex
+CREATE INDEX "followers_followingId_idx" ON "followers"("followingId");
+
+-- CreateIndex
+CREATE INDEX "post_tags_tagId_idx" ON "post_tags"("tagId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tag_follows_userId_tagId_key" ON "tag_follows"("userId", "tagId");
+
+-- CreateIndex
+CREATE INDEX "tag_follows_tagId_idx" ON "tag_follows"("tagId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "category_follows_userId_categoryId_key" ON "category_follows"("userId", "categoryId");
+
+-- CreateIndex
+CREATE INDEX "category_follows_categoryId_idx" ON "category_follows"("categoryId");
+
+-- AddForeignKey
+ALTER TABLE "tag_follows" ADD CONSTRAINT "tag_follows_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tag_follows" ADD CONSTRAINT "tag_follows_tagId_fkey" FOREIGN KEY ("tagId") REFERENCES "tags"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "category_follows" ADD CONSTRAINT "category_follows_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "category_follows" ADD CONSTRAINT "category_follows_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
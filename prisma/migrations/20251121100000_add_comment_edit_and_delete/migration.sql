@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "comments" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "editedAt" TIMESTAMP(3);
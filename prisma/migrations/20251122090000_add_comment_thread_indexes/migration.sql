@@ -0,0 +1,8 @@
+-- CreateIndex
+CREATE INDEX "comments_postId_parentId_idx" ON "comments"("postId", "parentId");
+
+-- CreateIndex
+CREATE INDEX "comments_parentId_idx" ON "comments"("parentId");
+
+-- CreateIndex
+CREATE INDEX "comment_likes_commentId_idx" ON "comment_likes"("commentId");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "comments" ALTER COLUMN "userId" DROP NOT NULL;
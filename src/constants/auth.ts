@@ -0,0 +1,13 @@
+export const ACCESS_TOKEN_EXPIRES_IN = '15m'; // Used when JWT_EXPIRES_IN is not set
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+export const PASSWORD_RESET_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+export const EMAIL_VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+export const TWO_FACTOR_CHALLENGE_EXPIRES_IN = '5m';
+export const TWO_FACTOR_ISSUER = 'Post Stack';
+export const RECOVERY_CODE_COUNT = 10;
+export const PERSONAL_ACCESS_TOKEN_PREFIX = 'psk_';
+export const PERSONAL_ACCESS_TOKEN_LAST_USED_RESOLUTION_MS = 60 * 1000; // 1 minute
+export const TOKEN_SCOPES = ['posts:read', 'posts:write', 'comments:write'] as const;
+export type TokenScope = typeof TOKEN_SCOPES[number];
+export const SESSION_LAST_SEEN_RESOLUTION_MS = 60 * 1000; // 1 minute
+export const ACCOUNT_UNLOCK_TOKEN_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
@@ -2,6 +2,7 @@ export const CACHE_CONFIG = {
   TTL_DEFAULT: 5 * 60 * 1000, // 5 minutes
   TTL_POSTS_LIST: 5 * 60 * 1000, // 5 minutes
   TTL_POSTS_SINGLE: 10 * 60 * 1000, // 10 minutes
+  TTL_RENDERED_CONTENT: 60 * 60, // 1 hour, in seconds as node-cache expects
   MAX_SIZE: 1000,
   ENABLED: true
 };
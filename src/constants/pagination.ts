@@ -0,0 +1,2 @@
+export const DEFAULT_PAGE_LIMIT = 10; // Items per page when no limit is given
+export const MAX_PAGE_LIMIT = 100; // Larger limits are capped to this
@@ -0,0 +1,21 @@
+export const POST_SCHEDULER_INTERVAL_MS = 60 * 1000; // How often due scheduled posts are published
+export const POST_STATUSES = ['draft', 'scheduled', 'published'] as const;
+export type PostStatus = typeof POST_STATUSES[number];
+export const POST_REVISION_RETENTION = 50; // Newest revisions kept per post when POST_REVISION_RETENTION is not set
+export const POST_TRASH_RETENTION_DAYS = 30; // Days trashed posts are kept when POST_TRASH_RETENTION_DAYS is not set
+export const WORDS_PER_MINUTE = 200; // Average reading speed used for reading time estimates
+export const EXCERPT_MAX_LENGTH = 200; // Characters in an automatically generated excerpt
+export const SEARCH_QUERY_MAX_LENGTH = 200; // Characters accepted in a search query
+export const SEARCH_SNIPPET_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'; // ts_headline options for content snippets
+export const SLUG_MAX_LENGTH = 100; // Characters in a generated or custom slug, before any uniqueness suffix
+export const SLUG_ALLOCATION_ATTEMPTS = 3; // Tries at claiming a free slug when concurrent writes race for it
+export const SLUG_SUFFIX_CANDIDATES = 20; // Highest numbered suffix tried (base-2 ... base-20) before a random one
+export const RESERVED_POST_SLUGS = ['my-posts', 'trash', 'saved', 'drafts']; // Would be shadowed by fixed routes under /api/posts
+export const FEED_SOURCES = ['authors', 'tags', 'categories'] as const;
+export type FeedSource = typeof FEED_SOURCES[number];
+export const COMMENT_TOMBSTONE_CONTENT = '[deleted]'; // Shown in place of a deleted comment that still has replies
+export const COMMENT_MAX_DEPTH = 5; // Levels of replies below a top-level comment
+export const COMMENT_SORTS = ['oldest', 'newest', 'top'] as const;
+export type CommentSort = typeof COMMENT_SORTS[number];
+export const COMMENT_PAGE_LIMIT = 20; // Top-level comments or replies per page by default
+export const COMMENT_REPLY_PREVIEW_LIMIT = 3; // Replies shown under each comment before they have to be loaded separately
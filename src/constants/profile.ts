@@ -0,0 +1,2 @@
+export const SOCIAL_LINK_PLATFORMS = ['twitter', 'github', 'linkedin', 'mastodon', 'instagram', 'youtube'] as const;
+export type SocialLinkPlatform = typeof SOCIAL_LINK_PLATFORMS[number];
@@ -1,2 +1,8 @@
 export const RATE_LIMIT_WINDOW_MS = 15 * 60 * 1000; // 15 minutes in milliseconds
 export const RATE_LIMIT_MAX_REQUESTS = 5000; // 500 requests per window
+
+export const LOGIN_MAX_FAILED_ATTEMPTS = 5; // Failures per account before it is locked
+export const LOGIN_LOCKOUT_BASE_MS = 60 * 1000; // First lockout lasts 1 minute and doubles with each further failure
+export const LOGIN_LOCKOUT_MAX_MS = 24 * 60 * 60 * 1000; // 24 hours
+export const LOGIN_IP_MAX_FAILED_ATTEMPTS = 20; // Failures per IP address within the window
+export const LOGIN_IP_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
@@ -0,0 +1,31 @@
+import { Role } from '@prisma/client';
+
+export type Permission =
+  | 'posts:write'
+  | 'posts:edit-any'
+  | 'posts:delete-any'
+  | 'posts:feature'
+  | 'comments:write'
+  | 'comments:moderate'
+  | 'categories:manage'
+  | 'tags:manage'
+  | 'users:manage';
+
+export const ROLES: Role[] = ['reader', 'author', 'editor', 'admin'];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  reader: ['comments:write'],
+  author: ['comments:write', 'posts:write'],
+  editor: ['comments:write', 'comments:moderate', 'posts:write', 'posts:edit-any', 'posts:feature', 'categories:manage', 'tags:manage'],
+  admin: [
+    'comments:write',
+    'comments:moderate',
+    'posts:write',
+    'posts:edit-any',
+    'posts:delete-any',
+    'posts:feature',
+    'categories:manage',
+    'tags:manage',
+    'users:manage',
+  ],
+};
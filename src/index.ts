@@ -6,9 +6,14 @@ import postRoutes from './routes/posts';
 import categoryRoutes from './routes/categories';
 import userRoutes from './routes/users';
 import tagRoutes from './routes/tags';
+import tokenRoutes from './routes/tokens';
+import sessionRoutes from './routes/sessions';
+import searchRoutes from './routes/search';
+import feedRoutes from './routes/feed';
 import { authenticateToken } from './utils/auth';
 import { errorHandler } from './middleware/validation';
 import globalRateLimit from './middleware/rateLimit';
+import { startPostScheduler } from './utils/scheduler';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -34,11 +39,15 @@ app.get('/health', (req, res) => {
   });
 });
 
+app.use('/api/auth/tokens', tokenRoutes);
+app.use('/api/auth/sessions', sessionRoutes);
 app.use('/api/auth', authRoutes);
 app.use('/api/posts', postRoutes);
 app.use('/api/categories', categoryRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/tags', tagRoutes);
+app.use('/api/search', searchRoutes);
+app.use('/api/feed', feedRoutes);
 
 app.use('/api/protected', authenticateToken);
 
@@ -57,6 +66,7 @@ if(process.env.NODE_ENV !== 'test') {
   console.log(`📝 Environment: ${process.env.NODE_ENV || 'development'}`);
   console.log(`🔗 Health check: http://localhost:${PORT}/health`);
 });
+  startPostScheduler();
 }
 
 export default app;
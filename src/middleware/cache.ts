@@ -9,6 +9,12 @@ const cache = new NodeCache({
   checkperiod: 120 // Check for expired keys every 2 minutes
 });
 
+// The ETag is kept with the body so cache hits still answer conditional requests
+interface CachedResponse {
+  body: any;
+  etag?: string;
+}
+
 export const generateCacheKey = (req: AuthRequest): string => {
   const { query, user, originalUrl, path } = req;
   const userId = user?.id || 'anonymous';
@@ -31,11 +37,17 @@ export const cacheMiddleware = (ttl?: number) => {
     }
 
     const cacheKey = generateCacheKey(req);
-    const cachedData = cache.get(cacheKey);
-
-    if (cachedData) {
+    const cached = cache.get<CachedResponse>(cacheKey);
+
+    if (cached) {
+      if (cached.etag) {
+        res.set('ETag', cached.etag);
+        if (req.fresh) {
+          return res.status(304).end();
+        }
+      }
 
-      return res.json(cachedData);
+      return res.json(cached.body);
     }
 
 
@@ -44,8 +56,12 @@ export const cacheMiddleware = (ttl?: number) => {
 
     res.json = function (data: any) {
 
-      const cacheTTL = ttl || CACHE_CONFIG.TTL_DEFAULT;
-      cache.set(cacheKey, data, cacheTTL);
+      // Only successful responses are cached; a cached body would be replayed with a 200 status
+      if (res.statusCode >= 200 && res.statusCode < 300) {
+        const cacheTTL = ttl || CACHE_CONFIG.TTL_DEFAULT;
+        const cachedResponse: CachedResponse = { body: data, etag: res.get('ETag') };
+        cache.set(cacheKey, cachedResponse, cacheTTL);
+      }
 
 
       return originalJson.call(this, data);
@@ -81,6 +97,16 @@ export const invalidateCache = {
   },
 
 
+  invalidateSavedCache: (userId: string) => {
+    const keys = cache.keys();
+    keys.forEach(key => {
+      if (key.startsWith(`/api/posts/saved:${userId}:`)) {
+        cache.del(key);
+      }
+    });
+  },
+
+
   invalidateUserCaches: (userId: string) => {
     const keys = cache.keys();
     keys.forEach(key => {
@@ -1,8 +1,68 @@
-import { body } from "express-validator";
+import { body, query } from "express-validator";
 import { PrismaClient } from "@prisma/client";
+import { ROLES } from "../constants/roles";
+import { TOKEN_SCOPES } from "../constants/auth";
+import { SOCIAL_LINK_PLATFORMS } from "../constants/profile";
+import { SEARCH_QUERY_MAX_LENGTH, SLUG_MAX_LENGTH, RESERVED_POST_SLUGS } from "../constants/posts";
 
 const prisma = new PrismaClient();
 
+const passwordRule = (field: string) =>
+  body(field)
+    .isLength({ min: 8 })
+    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
+    .withMessage(
+      "Password must be at least 8 characters with uppercase, lowercase, and number"
+    );
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+const futureDate = (label: string) => (value: string) => {
+  if (new Date(value) <= new Date()) {
+    throw new Error(`${label} must be in the future`);
+  }
+  return true;
+};
+
+const categoryExists = async (value: unknown) => {
+  if (value !== null && value !== undefined) {
+    if (typeof value !== "string") {
+      throw new Error("Category ID must be a string");
+    }
+    const category = await prisma.category.findUnique({
+      where: { id: value },
+    });
+    if (!category) {
+      throw new Error("Category not found");
+    }
+  }
+  return true;
+};
+
+const tagsExist = async (value: unknown) => {
+  if (value && Array.isArray(value)) {
+    for (const tagId of value) {
+      if (typeof tagId !== "string") {
+        throw new Error("Each tag ID must be a string");
+      }
+      const tag = await prisma.tag.findUnique({
+        where: { id: tagId },
+      });
+      if (!tag) {
+        throw new Error(`Tag with ID ${tagId} not found`);
+      }
+    }
+  }
+  return true;
+};
+
 export const validateSignup = [
   body("email")
     .isEmail()
@@ -14,20 +74,191 @@ export const validateSignup = [
     .withMessage(
       "Username must be 3-30 characters and contain only letters, numbers, and underscores"
     ),
-  body("password")
-    .isLength({ min: 8 })
-    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
+  passwordRule("password"),
+];
+
+export const validateLogin = [
+  body("email")
+    .isEmail()
+    .normalizeEmail()
+    .withMessage("Please provide a valid email"),
+  body("password").notEmpty().withMessage("Password is required"),
+];
+
+export const validateUpdateProfile = [
+  body("email")
+    .optional()
+    .isEmail()
+    .normalizeEmail()
+    .withMessage("Please provide a valid email"),
+  body("username")
+    .optional()
+    .isLength({ min: 3, max: 30 })
+    .matches(/^[a-zA-Z0-9_]+$/)
     .withMessage(
-      "Password must be at least 8 characters with uppercase, lowercase, and number"
+      "Username must be 3-30 characters and contain only letters, numbers, and underscores"
     ),
+  body("displayName")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage("Display name must be 50 characters or less"),
+  body("bio")
+    .optional({ nullable: true })
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage("Bio must be 500 characters or less"),
+  body("avatarUrl")
+    .optional({ nullable: true })
+    .isURL()
+    .withMessage("Avatar URL must be a valid URL"),
+  body("website")
+    .optional({ nullable: true })
+    .isURL()
+    .withMessage("Website must be a valid URL"),
+  body("location")
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Location must be 100 characters or less"),
+  body("socialLinks")
+    .optional({ nullable: true })
+    .custom((value: unknown) => {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        throw new Error("Social links must be an object");
+      }
+      const invalidPlatforms = Object.keys(value).filter(
+        (platform) => !SOCIAL_LINK_PLATFORMS.some((known) => known === platform)
+      );
+      if (invalidPlatforms.length > 0) {
+        throw new Error(`Invalid social platforms: ${invalidPlatforms.join(", ")}. Must be one of: ${SOCIAL_LINK_PLATFORMS.join(", ")}`);
+      }
+      if (Object.values(value).some((url) => typeof url !== "string" || !isHttpUrl(url))) {
+        throw new Error("Social links must be valid URLs");
+      }
+      return true;
+    }),
 ];
 
-export const validateLogin = [
+export const validateChangePassword = [
+  body("currentPassword")
+    .notEmpty()
+    .withMessage("Current password is required"),
+  passwordRule("newPassword"),
+];
+
+export const validateDeleteAccount = [
+  body("password").notEmpty().withMessage("Password is required"),
+];
+
+export const validateRefreshToken = [
+  body("refreshToken")
+    .isString()
+    .notEmpty()
+    .withMessage("Refresh token is required"),
+];
+
+export const validateForgotPassword = [
   body("email")
     .isEmail()
     .normalizeEmail()
     .withMessage("Please provide a valid email"),
+];
+
+export const validateResetPassword = [
+  body("token")
+    .isString()
+    .notEmpty()
+    .withMessage("Reset token is required"),
+  passwordRule("password"),
+];
+
+export const validateUnlockAccount = [
+  body("token")
+    .isString()
+    .notEmpty()
+    .withMessage("Unlock token is required"),
+];
+
+export const validateLoginEvents = [
+  query("email")
+    .optional()
+    .isEmail()
+    .normalizeEmail()
+    .withMessage("Email filter must be a valid email"),
+  query("userId")
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 100 })
+    .withMessage("User ID filter must be a non-empty string"),
+  query("ipAddress")
+    .optional()
+    .isIP()
+    .withMessage("IP address filter must be a valid IP address"),
+  query("success")
+    .optional()
+    .isIn(["true", "false"])
+    .withMessage("Success filter must be true or false"),
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100"),
+];
+
+export const validateVerifyEmail = [
+  query("token")
+    .isString()
+    .notEmpty()
+    .withMessage("Verification token is required"),
+];
+
+export const validateTwoFactorCode = [
+  body("code")
+    .isString()
+    .notEmpty()
+    .withMessage("Authentication code is required"),
+];
+
+export const validateTwoFactorLogin = [
+  body("challengeToken")
+    .isString()
+    .notEmpty()
+    .withMessage("Challenge token is required"),
+  ...validateTwoFactorCode,
+];
+
+export const validateDisableTwoFactor = [
   body("password").notEmpty().withMessage("Password is required"),
+  ...validateTwoFactorCode,
+];
+
+export const validatePersonalAccessToken = [
+  body("name")
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage("Token name must be between 1 and 100 characters"),
+  body("scopes")
+    .isArray({ min: 1 })
+    .withMessage("At least one scope is required")
+    .custom((value: unknown[]) => {
+      const invalidScopes = value.filter((scope) => !TOKEN_SCOPES.some((known) => known === scope));
+      if (invalidScopes.length > 0) {
+        throw new Error(`Invalid scopes: ${invalidScopes.join(", ")}. Must be one of: ${TOKEN_SCOPES.join(", ")}`);
+      }
+      return true;
+    }),
+  body("expiresAt")
+    .optional({ nullable: true })
+    .isISO8601()
+    .withMessage("Expiry must be an ISO 8601 date")
+    .custom(futureDate("Expiry")),
 ];
 
 export const validatePost = [
@@ -35,6 +266,21 @@ export const validatePost = [
     .isLength({ min: 1, max: 200 })
     .withMessage("Title must be between 1 and 200 characters"),
   body("content").isLength({ min: 1 }).withMessage("Content is required"),
+  body("slug")
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: SLUG_MAX_LENGTH })
+    .withMessage(`Slug must be between 1 and ${SLUG_MAX_LENGTH} characters`)
+    .matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/)
+    .withMessage("Slug may only contain lowercase letters, numbers and single hyphens")
+    .not()
+    .isIn(RESERVED_POST_SLUGS)
+    .withMessage("This slug is reserved"),
+  body("excerpt")
+    .optional({ nullable: true })
+    .isString()
+    .isLength({ max: 300 })
+    .withMessage("Excerpt must be 300 characters or less"),
   body("published")
     .optional()
     .isBoolean()
@@ -43,22 +289,14 @@ export const validatePost = [
     .optional()
     .isBoolean()
     .withMessage("Featured must be a boolean"),
+  body("publishAt")
+    .optional({ nullable: true })
+    .isISO8601()
+    .withMessage("Publish time must be an ISO 8601 date")
+    .custom(futureDate("Publish time")),
   body("categoryId")
     .optional()
-    .custom(async (value) => {
-      if (value !== null && value !== undefined) {
-        if (typeof value !== "string") {
-          throw new Error("Category ID must be a string");
-        }
-        const category = await prisma.category.findUnique({
-          where: { id: value },
-        });
-        if (!category) {
-          throw new Error("Category not found");
-        }
-      }
-      return true;
-    }),
+    .custom(categoryExists),
   body("metaTitle")
     .optional()
     .isLength({ max: 60 })
@@ -81,22 +319,158 @@ export const validatePost = [
       }
       return true;
     })
-    .custom(async (value) => {
-      if (value && Array.isArray(value)) {
-        for (const tagId of value) {
-          if (typeof tagId !== "string") {
-            throw new Error("Each tag ID must be a string");
-          }
-          const tag = await prisma.tag.findUnique({
-            where: { id: tagId },
-          });
-          if (!tag) {
-            throw new Error(`Tag with ID ${tagId} not found`);
-          }
-        }
+    .custom(tagsExist),
+];
+
+// Every field is optional; null clears the optional ones
+export const validatePostPatch = [
+  body("title")
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 200 })
+    .withMessage("Title must be between 1 and 200 characters"),
+  body("content")
+    .optional()
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage("Content cannot be empty"),
+  body("slug")
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: SLUG_MAX_LENGTH })
+    .withMessage(`Slug must be between 1 and ${SLUG_MAX_LENGTH} characters`)
+    .matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/)
+    .withMessage("Slug may only contain lowercase letters, numbers and single hyphens")
+    .not()
+    .isIn(RESERVED_POST_SLUGS)
+    .withMessage("This slug is reserved"),
+  body("excerpt")
+    .optional({ nullable: true })
+    .isString()
+    .isLength({ max: 300 })
+    .withMessage("Excerpt must be 300 characters or less"),
+  body("published")
+    .optional()
+    .isBoolean()
+    .withMessage("Published must be a boolean"),
+  body("featured")
+    .optional()
+    .isBoolean()
+    .withMessage("Featured must be a boolean"),
+  body("publishAt")
+    .optional({ nullable: true })
+    .isISO8601()
+    .withMessage("Publish time must be an ISO 8601 date")
+    .custom(futureDate("Publish time")),
+  body("categoryId")
+    .optional()
+    .custom(categoryExists),
+  body("metaTitle")
+    .optional({ nullable: true })
+    .isString()
+    .isLength({ max: 60 })
+    .withMessage("Meta title must be 60 characters or less"),
+  body("metaDescription")
+    .optional({ nullable: true })
+    .isString()
+    .isLength({ max: 160 })
+    .withMessage("Meta description must be 160 characters or less"),
+  body("ogImage")
+    .optional({ nullable: true })
+    .isURL()
+    .withMessage("OG image must be a valid URL"),
+  body("addTags")
+    .optional()
+    .isArray({ max: 5 })
+    .withMessage("Tags to add must be an array of at most 5 tag IDs")
+    .custom(tagsExist),
+  body("removeTags")
+    .optional()
+    .isArray()
+    .withMessage("Tags to remove must be an array")
+    .custom((value: unknown[]) => {
+      if (value.some((tagId) => typeof tagId !== "string")) {
+        throw new Error("Each tag ID must be a string");
+      }
+      return true;
+    }),
+];
+
+export const validateSchedule = [
+  body("publishAt")
+    .isISO8601()
+    .withMessage("Publish time must be an ISO 8601 date")
+    .custom(futureDate("Publish time")),
+];
+
+export const validateRevisionDiff = [
+  query("from")
+    .isString()
+    .notEmpty()
+    .withMessage("The revision to diff from is required"),
+  query("to")
+    .isString()
+    .notEmpty()
+    .withMessage("The revision to diff to is required"),
+];
+
+export const validateSearch = [
+  query("q")
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage("Search query is required")
+    .isLength({ max: SEARCH_QUERY_MAX_LENGTH })
+    .withMessage(`Search query must be at most ${SEARCH_QUERY_MAX_LENGTH} characters`),
+  query("from")
+    .optional()
+    .isISO8601()
+    .withMessage("From must be an ISO 8601 date"),
+  query("to")
+    .optional()
+    .isISO8601()
+    .withMessage("To must be an ISO 8601 date")
+    .custom((value, { req }) => {
+      if (req.query?.from && new Date(value) < new Date(req.query.from)) {
+        throw new Error("To must not be before from");
       }
       return true;
     }),
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100"),
+];
+
+export const validateFeatured = [
+  body("featured").isBoolean().withMessage("Featured must be a boolean"),
+];
+
+export const validateCategory = [
+  body("name")
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage("Category name must be between 1 and 50 characters"),
+];
+
+export const validateTag = [
+  body("name")
+    .isString()
+    .trim()
+    .toLowerCase()
+    .isLength({ min: 1, max: 30 })
+    .withMessage("Tag name must be between 1 and 30 characters"),
+];
+
+export const validateRole = [
+  body("role")
+    .isIn(ROLES)
+    .withMessage(`Role must be one of: ${ROLES.join(", ")}`),
 ];
 
 export const validateComment = [
@@ -1,13 +1,163 @@
 import { Router, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
-import { generateToken, hashPassword, comparePassword, authenticateToken } from '../utils/auth';
-import { validateSignup, validateLogin } from '../middleware/validators';
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  generateToken,
+  hashPassword,
+  comparePassword,
+  authenticateToken,
+  requirePermission,
+  createSession,
+  getSessionMetadata,
+  createRefreshToken,
+  revokeSession,
+  revokeAllSessions,
+  revokeAllPersonalAccessTokens,
+  hashToken,
+  generateOpaqueToken,
+  sendVerificationEmail,
+  generateTwoFactorChallenge,
+  verifyTwoFactorChallenge,
+  generateRecoveryCodes,
+  normalizeRecoveryCode,
+} from '../utils/auth';
+import {
+  validateSignup,
+  validateLogin,
+  validateRefreshToken,
+  validateForgotPassword,
+  validateResetPassword,
+  validateVerifyEmail,
+  validateTwoFactorCode,
+  validateTwoFactorLogin,
+  validateDisableTwoFactor,
+  validateUnlockAccount,
+  validateLoginEvents,
+  validateUpdateProfile,
+  validateChangePassword,
+  validateDeleteAccount,
+} from '../middleware/validators';
 import { handleValidationErrors, asyncHandler } from '../middleware/validation';
 import { AuthRequest } from '../utils/auth';
+import { sendMail } from '../utils/mailer';
+import { detachRepliedComments, pruneTombstones } from '../utils/comments';
+import { invalidateCache } from '../middleware/cache';
+import { generateTotpSecret, verifyTotp, buildOtpAuthUri } from '../utils/totp';
+import {
+  recordLoginAttempt,
+  recordLoginFailure,
+  recordLoginSuccess,
+  getIpRetryAfterMs,
+  getLockRetryAfterMs,
+  clearAccountLock,
+} from '../utils/loginProtection';
+import { PASSWORD_RESET_TOKEN_TTL_MS, TWO_FACTOR_ISSUER } from '../constants/auth';
 
 const router = Router();
 const prisma = new PrismaClient();
 
+// Accepts either a current TOTP code or an unused recovery code; both are single-use
+async function verifySecondFactor(
+  user: { id: string; twoFactorSecret: string | null; twoFactorLastUsedStep: number | null },
+  code: string
+): Promise<boolean> {
+  const trimmedCode = code.replace(/\s/g, '');
+
+  if (user.twoFactorSecret && /^\d{6}$/.test(trimmedCode)) {
+    const step = verifyTotp(user.twoFactorSecret, trimmedCode);
+    if (step === null || (user.twoFactorLastUsedStep !== null && step <= user.twoFactorLastUsedStep)) {
+      return false;
+    }
+
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, twoFactorLastUsedStep: user.twoFactorLastUsedStep },
+      data: { twoFactorLastUsedStep: step },
+    });
+    return count === 1;
+  }
+
+  const { count } = await prisma.twoFactorRecoveryCode.updateMany({
+    where: {
+      userId: user.id,
+      codeHash: hashToken(normalizeRecoveryCode(trimmedCode)),
+      usedAt: null,
+    },
+    data: { usedAt: new Date() },
+  });
+  return count === 1;
+}
+
+// Replaces all recovery codes for the user and returns the new raw codes
+async function replaceRecoveryCodes(userId: string): Promise<string[]> {
+  const recoveryCodes = generateRecoveryCodes();
+
+  await prisma.$transaction([
+    prisma.twoFactorRecoveryCode.deleteMany({
+      where: { userId },
+    }),
+    prisma.twoFactorRecoveryCode.createMany({
+      data: recoveryCodes.map((code) => ({
+        userId,
+        codeHash: hashToken(normalizeRecoveryCode(code)),
+      })),
+    }),
+  ]);
+
+  return recoveryCodes;
+}
+
+// Strips personal data from an account while keeping its published posts and comments
+async function anonymizeAccount(userId: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.post.deleteMany({ where: { authorId: userId, published: false } }),
+    prisma.follow.deleteMany({ where: { OR: [{ followerId: userId }, { followingId: userId }] } }),
+    prisma.postLike.deleteMany({ where: { userId } }),
+    prisma.commentLike.deleteMany({ where: { userId } }),
+    prisma.savedPost.deleteMany({ where: { userId } }),
+    prisma.session.deleteMany({ where: { userId } }),
+    prisma.personalAccessToken.deleteMany({ where: { userId } }),
+    prisma.passwordResetToken.deleteMany({ where: { userId } }),
+    prisma.emailVerificationToken.deleteMany({ where: { userId } }),
+    prisma.accountUnlockToken.deleteMany({ where: { userId } }),
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        email: `deleted-${userId}@deleted.invalid`,
+        username: `deleted_${userId}`,
+        // Not a valid bcrypt hash, so no password can ever match it
+        password: '',
+        emailVerifiedAt: null,
+        twoFactorSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorLastUsedStep: null,
+        deletedAt: new Date(),
+      },
+    }),
+  ]);
+}
+
+// Fields of a unique constraint a write collided on, when a concurrent request got there first
+function getUniqueConflictTarget(error: unknown): string[] | null {
+  if (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === 'P2002' &&
+    Array.isArray(error.meta?.target)
+  ) {
+    return error.meta?.target as string[];
+  }
+  return null;
+}
+
+// Responds with 429 and a Retry-After header (in seconds)
+function sendTooManyAttempts(res: Response, error: string, retryAfterMs: number) {
+  const retryAfter = Math.max(Math.ceil(retryAfterMs / 1000), 1);
+  res.set('Retry-After', String(retryAfter));
+  return res.status(429).json({
+    error,
+    retryAfter,
+  });
+}
+
 // Signup endpoint
 router.post('/signup', validateSignup, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
   const { email, username, password } = req.body;
@@ -40,40 +190,71 @@ router.post('/signup', validateSignup, handleValidationErrors, asyncHandler(asyn
       id: true,
       email: true,
       username: true,
+      role: true,
+      emailVerifiedAt: true,
       createdAt: true,
     },
   });
 
-  const token = generateToken(user.id);
+  await sendVerificationEmail(user);
+
+  const { token, refreshToken } = await createSession(user.id, getSessionMetadata(req));
 
   return res.status(201).json({
     message: 'User created successfully',
     user,
     token,
+    refreshToken,
   });
 }));
 
 router.post('/login', validateLogin, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
   const { email, password } = req.body;
+  const metadata = getSessionMetadata(req);
+
+  const ipRetryAfterMs = await getIpRetryAfterMs(metadata.ipAddress);
+  if (ipRetryAfterMs !== null) {
+    await recordLoginAttempt(email, metadata, { success: false, reason: 'ip_throttled' });
+    return sendTooManyAttempts(res, 'Too many failed login attempts', ipRetryAfterMs);
+  }
 
   const user = await prisma.user.findUnique({
     where: { email },
   });
 
   if (!user) {
+    await recordLoginAttempt(email, metadata, { success: false, reason: 'unknown_user' });
     return res.status(401).json({
       error: 'Invalid credentials',
     });
   }
 
+  // A locked account is rejected before the password is checked so guesses can't continue
+  const lockRetryAfterMs = getLockRetryAfterMs(user);
+  if (lockRetryAfterMs !== null) {
+    await recordLoginAttempt(email, metadata, { userId: user.id, success: false, reason: 'account_locked' });
+    return sendTooManyAttempts(res, 'Account temporarily locked', lockRetryAfterMs);
+  }
+
   const isPasswordValid = await comparePassword(password, user.password);
   if (!isPasswordValid) {
+    await recordLoginFailure(user, metadata, 'invalid_password');
     return res.status(401).json({
       error: 'Invalid credentials',
     });
   }
 
-  const token = generateToken(user.id);
+  if (user.twoFactorEnabledAt) {
+    return res.json({
+      message: 'Two-factor authentication required',
+      twoFactorRequired: true,
+      challengeToken: generateTwoFactorChallenge(user.id),
+    });
+  }
+
+  await recordLoginSuccess(user, metadata);
+
+  const { token, refreshToken } = await createSession(user.id, metadata);
 
   return res.json({
     message: 'Login successful',
@@ -81,11 +262,506 @@ router.post('/login', validateLogin, handleValidationErrors, asyncHandler(async
       id: user.id,
       email: user.email,
       username: user.username,
+      role: user.role,
+      emailVerifiedAt: user.emailVerifiedAt,
     },
     token,
+    refreshToken,
+  });
+}));
+
+// Second login step for accounts with two-factor authentication enabled
+router.post('/login/2fa', validateTwoFactorLogin, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { challengeToken, code } = req.body;
+  const metadata = getSessionMetadata(req);
+
+  const userId = verifyTwoFactorChallenge(challengeToken);
+  if (!userId) {
+    return res.status(401).json({
+      error: 'Invalid or expired challenge token',
+    });
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+  });
+
+  if (!user || !user.twoFactorEnabledAt) {
+    return res.status(401).json({
+      error: 'Invalid or expired challenge token',
+    });
+  }
+
+  const lockRetryAfterMs = getLockRetryAfterMs(user);
+  if (lockRetryAfterMs !== null) {
+    await recordLoginAttempt(user.email, metadata, { userId: user.id, success: false, reason: 'account_locked' });
+    return sendTooManyAttempts(res, 'Account temporarily locked', lockRetryAfterMs);
+  }
+
+  // Wrong codes count towards the lockout just like wrong passwords
+  const isCodeValid = await verifySecondFactor(user, code);
+  if (!isCodeValid) {
+    await recordLoginFailure(user, metadata, 'invalid_2fa_code');
+    return res.status(401).json({
+      error: 'Invalid authentication code',
+    });
+  }
+
+  await recordLoginSuccess(user, metadata);
+
+  const { token, refreshToken } = await createSession(user.id, metadata);
+
+  return res.json({
+    message: 'Login successful',
+    user: {
+      id: user.id,
+      email: user.email,
+      username: user.username,
+      role: user.role,
+      emailVerifiedAt: user.emailVerifiedAt,
+    },
+    token,
+    refreshToken,
+  });
+}));
+
+// Exchange a refresh token for a new access/refresh token pair
+router.post('/refresh', validateRefreshToken, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { refreshToken } = req.body;
+
+  const storedToken = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    include: { session: true },
+  });
+
+  if (!storedToken || storedToken.session.revokedAt) {
+    return res.status(401).json({
+      error: 'Invalid refresh token',
+    });
+  }
+
+  if (storedToken.expiresAt < new Date()) {
+    return res.status(401).json({
+      error: 'Refresh token expired',
+    });
+  }
+
+  // Mark the token as used; a token that was already used means it has leaked,
+  // so the whole session (token family) is revoked
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { id: storedToken.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  if (count === 0) {
+    await revokeSession(storedToken.sessionId);
+    return res.status(401).json({
+      error: 'Refresh token reuse detected',
+    });
+  }
+
+  await prisma.session.update({
+    where: { id: storedToken.sessionId },
+    data: { lastSeenAt: new Date() },
+  });
+
+  const newRefreshToken = await createRefreshToken(storedToken.sessionId);
+  const token = generateToken(storedToken.session.userId, storedToken.sessionId);
+
+  return res.json({
+    message: 'Token refreshed successfully',
+    token,
+    refreshToken: newRefreshToken,
+  });
+}));
+
+// Revoke the session the refresh token belongs to
+router.post('/logout', validateRefreshToken, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { refreshToken } = req.body;
+
+  const storedToken = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+  });
+
+  if (!storedToken) {
+    return res.status(401).json({
+      error: 'Invalid refresh token',
+    });
+  }
+
+  await revokeSession(storedToken.sessionId);
+
+  return res.json({
+    message: 'Logged out successfully',
+  });
+}));
+
+// Request a password reset email
+router.post('/forgot-password', validateForgotPassword, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { email } = req.body;
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+  });
+
+  // Respond the same way whether or not the account exists to avoid leaking registered emails
+  if (user) {
+    const resetToken = generateOpaqueToken();
+
+    // Only the most recent reset link stays valid
+    await prisma.passwordResetToken.deleteMany({
+      where: { userId: user.id, usedAt: null },
+    });
+
+    await prisma.passwordResetToken.create({
+      data: {
+        tokenHash: hashToken(resetToken),
+        userId: user.id,
+        expiresAt: new Date(Date.now() + PASSWORD_RESET_TOKEN_TTL_MS),
+      },
+    });
+
+    const resetUrl = `${process.env.FRONTEND_URL}/reset-password?token=${resetToken}`;
+
+    await sendMail({
+      to: user.email,
+      subject: 'Reset your password',
+      text: `Hi ${user.username},\n\nUse the link below to choose a new password. It expires in one hour.\n\n${resetUrl}\n\nReset token: ${resetToken}\n\nIf you did not request a password reset, you can ignore this email.`,
+    });
+  }
+
+  return res.json({
+    message: 'If an account with that email exists, a password reset link has been sent',
   });
 }));
 
+// Set a new password using a reset token
+router.post('/reset-password', validateResetPassword, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { token, password } = req.body;
+
+  const resetToken = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (!resetToken || resetToken.usedAt || resetToken.expiresAt < new Date()) {
+    return res.status(400).json({
+      error: 'Invalid or expired reset token',
+    });
+  }
+
+  // Claim the token atomically so it can only be used once
+  const { count } = await prisma.passwordResetToken.updateMany({
+    where: { id: resetToken.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  if (count === 0) {
+    return res.status(400).json({
+      error: 'Invalid or expired reset token',
+    });
+  }
+
+  const hashedPassword = await hashPassword(password);
+  await prisma.user.update({
+    where: { id: resetToken.userId },
+    data: { password: hashedPassword },
+  });
+
+  await revokeAllSessions(resetToken.userId);
+  await revokeAllPersonalAccessTokens(resetToken.userId);
+  await clearAccountLock(resetToken.userId);
+
+  return res.json({
+    message: 'Password reset successfully',
+  });
+}));
+
+// Unlock an account using the token from the lockout email
+router.post('/unlock-account', validateUnlockAccount, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { token } = req.body;
+
+  const unlockToken = await prisma.accountUnlockToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (!unlockToken || unlockToken.expiresAt < new Date()) {
+    return res.status(400).json({
+      error: 'Invalid or expired unlock token',
+    });
+  }
+
+  await clearAccountLock(unlockToken.userId);
+
+  return res.json({
+    message: 'Account unlocked successfully',
+  });
+}));
+
+// Review recorded login attempts (admins only)
+router.get('/login-events', authenticateToken, requirePermission('users:manage'), validateLoginEvents, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 20;
+  const skip = (page - 1) * limit;
+
+  const where: Prisma.LoginAttemptWhereInput = {};
+  if (req.query.email) {
+    where.email = req.query.email as string;
+  }
+  if (req.query.userId) {
+    where.userId = req.query.userId as string;
+  }
+  if (req.query.ipAddress) {
+    where.ipAddress = req.query.ipAddress as string;
+  }
+  if (req.query.success !== undefined) {
+    where.success = req.query.success === 'true';
+  }
+
+  const [events, total] = await Promise.all([
+    prisma.loginAttempt.findMany({
+      where,
+      skip,
+      take: limit,
+      select: {
+        id: true,
+        userId: true,
+        email: true,
+        ipAddress: true,
+        userAgent: true,
+        success: true,
+        reason: true,
+        createdAt: true,
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    }),
+    prisma.loginAttempt.count({ where }),
+  ]);
+
+  return res.json({
+    events,
+    total,
+    page,
+    limit,
+  });
+}));
+
+// Confirm an email address using the token from the verification email
+router.get('/verify-email', validateVerifyEmail, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const token = req.query.token as string;
+
+  const verificationToken = await prisma.emailVerificationToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (!verificationToken || verificationToken.expiresAt < new Date()) {
+    return res.status(400).json({
+      error: 'Invalid or expired verification token',
+    });
+  }
+
+  await prisma.user.update({
+    where: { id: verificationToken.userId },
+    data: { emailVerifiedAt: new Date() },
+  });
+
+  await prisma.emailVerificationToken.deleteMany({
+    where: { userId: verificationToken.userId },
+  });
+
+  return res.json({
+    message: 'Email verified successfully',
+  });
+}));
+
+// Send a fresh verification email to the authenticated user
+router.post('/resend-verification', authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  if (req.user.emailVerifiedAt) {
+    return res.status(400).json({
+      error: 'Email already verified',
+    });
+  }
+
+  await sendVerificationEmail(req.user);
+
+  return res.json({
+    message: 'Verification email sent',
+  });
+}));
+
+// Start two-factor enrollment by generating a secret to add to an authenticator app
+router.post('/2fa/setup', authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: req.user.id },
+  });
+
+  if (user?.twoFactorEnabledAt) {
+    return res.status(400).json({
+      error: 'Two-factor authentication is already enabled',
+    });
+  }
+
+  const secret = generateTotpSecret();
+  await prisma.user.update({
+    where: { id: req.user.id },
+    data: {
+      twoFactorSecret: secret,
+      twoFactorLastUsedStep: null,
+    },
+  });
+
+  return res.json({
+    message: 'Scan the provisioning URI with an authenticator app and confirm with a code',
+    secret,
+    otpauthUrl: buildOtpAuthUri(secret, req.user.email, TWO_FACTOR_ISSUER),
+  });
+}));
+
+// Finish enrollment by proving the authenticator app produces valid codes
+router.post('/2fa/confirm', authenticateToken, validateTwoFactorCode, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: req.user.id },
+  });
+
+  if (!user || user.twoFactorEnabledAt) {
+    return res.status(400).json({
+      error: 'Two-factor authentication is already enabled',
+    });
+  }
+
+  if (!user.twoFactorSecret) {
+    return res.status(400).json({
+      error: 'Two-factor setup has not been started',
+    });
+  }
+
+  const step = verifyTotp(user.twoFactorSecret, req.body.code.replace(/\s/g, ''));
+  if (step === null) {
+    return res.status(400).json({
+      error: 'Invalid authentication code',
+    });
+  }
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      twoFactorEnabledAt: new Date(),
+      twoFactorLastUsedStep: step,
+    },
+  });
+
+  const recoveryCodes = await replaceRecoveryCodes(user.id);
+
+  return res.json({
+    message: 'Two-factor authentication enabled',
+    recoveryCodes,
+  });
+}));
+
+// Turn off two-factor authentication; requires the password and a current code
+router.post('/2fa/disable', authenticateToken, validateDisableTwoFactor, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const { password, code } = req.body;
+
+  const user = await prisma.user.findUnique({
+    where: { id: req.user.id },
+  });
+
+  if (!user || !user.twoFactorEnabledAt) {
+    return res.status(400).json({
+      error: 'Two-factor authentication is not enabled',
+    });
+  }
+
+  const isPasswordValid = await comparePassword(password, user.password);
+  if (!isPasswordValid) {
+    return res.status(401).json({
+      error: 'Invalid credentials',
+    });
+  }
+
+  const isCodeValid = await verifySecondFactor(user, code);
+  if (!isCodeValid) {
+    return res.status(401).json({
+      error: 'Invalid authentication code',
+    });
+  }
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: user.id },
+      data: {
+        twoFactorSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorLastUsedStep: null,
+      },
+    }),
+    prisma.twoFactorRecoveryCode.deleteMany({
+      where: { userId: user.id },
+    }),
+  ]);
+
+  return res.json({
+    message: 'Two-factor authentication disabled',
+  });
+}));
+
+// Replace all recovery codes; requires a current code
+router.post('/2fa/recovery-codes', authenticateToken, validateTwoFactorCode, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: req.user.id },
+  });
+
+  if (!user || !user.twoFactorEnabledAt) {
+    return res.status(400).json({
+      error: 'Two-factor authentication is not enabled',
+    });
+  }
+
+  const isCodeValid = await verifySecondFactor(user, req.body.code);
+  if (!isCodeValid) {
+    return res.status(401).json({
+      error: 'Invalid authentication code',
+    });
+  }
+
+  const recoveryCodes = await replaceRecoveryCodes(user.id);
+
+  return res.json({
+    message: 'Recovery codes regenerated',
+    recoveryCodes,
+  });
+}));
 
 router.get('/profile', authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
   if (!req.user) {
@@ -100,6 +776,15 @@ router.get('/profile', authenticateToken, asyncHandler(async (req: AuthRequest,
       id: true,
       email: true,
       username: true,
+      role: true,
+      emailVerifiedAt: true,
+      twoFactorEnabledAt: true,
+      displayName: true,
+      bio: true,
+      avatarUrl: true,
+      website: true,
+      location: true,
+      socialLinks: true,
       createdAt: true,
       _count: {
         select: {
@@ -126,4 +811,184 @@ router.get('/profile', authenticateToken, asyncHandler(async (req: AuthRequest,
   });
 }));
 
+// Update username, email and public profile fields; a new email must be verified again
+router.patch('/profile', authenticateToken, validateUpdateProfile, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const { email, username } = req.body;
+  const emailChanged = email !== undefined && email !== req.user.email;
+  const usernameChanged = username !== undefined && username !== req.user.username;
+
+  // Public profile fields; null clears a field
+  const profileData: Prisma.UserUpdateInput = {};
+  for (const field of ['displayName', 'bio', 'avatarUrl', 'website', 'location'] as const) {
+    if (req.body[field] !== undefined) {
+      profileData[field] = req.body[field] || null;
+    }
+  }
+  if (req.body.socialLinks !== undefined) {
+    profileData.socialLinks = req.body.socialLinks === null ? Prisma.DbNull : req.body.socialLinks;
+  }
+
+  if (!emailChanged && !usernameChanged && Object.keys(profileData).length === 0) {
+    return res.status(400).json({
+      error: 'No changes provided',
+    });
+  }
+
+  if (emailChanged || usernameChanged) {
+    const existingUser = await prisma.user.findFirst({
+      where: {
+        id: { not: req.user.id },
+        OR: [
+          ...(emailChanged ? [{ email }] : []),
+          ...(usernameChanged ? [{ username }] : []),
+        ],
+      },
+    });
+
+    if (existingUser) {
+      return res.status(400).json({
+        error: 'User already exists',
+        message: emailChanged && existingUser.email === email ? 'Email already registered' : 'Username already taken'
+      });
+    }
+  }
+
+  let user;
+  try {
+    user = await prisma.user.update({
+      where: { id: req.user.id },
+      data: {
+        ...profileData,
+        ...(usernameChanged ? { username } : {}),
+        ...(emailChanged ? { email, emailVerifiedAt: null } : {}),
+      },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        role: true,
+        emailVerifiedAt: true,
+        displayName: true,
+        bio: true,
+        avatarUrl: true,
+        website: true,
+        location: true,
+        socialLinks: true,
+        createdAt: true,
+      },
+    });
+  } catch (error) {
+    // Another account claimed the email or username after the check above
+    const target = getUniqueConflictTarget(error);
+    if (!target) {
+      throw error;
+    }
+    return res.status(400).json({
+      error: 'User already exists',
+      message: target.includes('email') ? 'Email already registered' : 'Username already taken'
+    });
+  }
+
+  if (emailChanged) {
+    await sendVerificationEmail(user);
+  }
+
+  // Cached post listings embed the author's username
+  if (usernameChanged) {
+    invalidateCache.invalidateAll();
+  }
+
+  return res.json({
+    message: 'Profile updated successfully',
+    user,
+  });
+}));
+
+// Change password; every other session is signed out
+router.post('/change-password', authenticateToken, validateChangePassword, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const { currentPassword, newPassword } = req.body;
+
+  const user = await prisma.user.findUnique({
+    where: { id: req.user.id },
+  });
+
+  if (!user || !(await comparePassword(currentPassword, user.password))) {
+    return res.status(401).json({
+      error: 'Current password is incorrect',
+    });
+  }
+
+  if (await comparePassword(newPassword, user.password)) {
+    return res.status(400).json({
+      error: 'New password must be different from the current password',
+    });
+  }
+
+  const hashedPassword = await hashPassword(newPassword);
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { password: hashedPassword },
+  });
+
+  const revokedCount = await revokeAllSessions(user.id, req.sessionId);
+  const revokedTokenCount = await revokeAllPersonalAccessTokens(user.id);
+
+  return res.json({
+    message: 'Password changed successfully',
+    revokedCount,
+    revokedTokenCount,
+  });
+}));
+
+// Delete the account. ACCOUNT_DELETION_POLICY decides whether posts and comments are
+// removed with it ("delete") or kept under an anonymized author ("anonymize", the default)
+router.delete('/account', authenticateToken, validateDeleteAccount, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const { password } = req.body;
+
+  const user = await prisma.user.findUnique({
+    where: { id: req.user.id },
+  });
+
+  if (!user || !(await comparePassword(password, user.password))) {
+    return res.status(401).json({
+      error: 'Invalid password',
+    });
+  }
+
+  if (process.env.ACCOUNT_DELETION_POLICY === 'delete') {
+    // Comments others replied to stay behind as tombstones so the cascade keeps their replies
+    const tombstoneIds = await detachRepliedComments(user.id);
+    await prisma.user.delete({
+      where: { id: user.id },
+    });
+    await pruneTombstones(tombstoneIds);
+  } else {
+    await anonymizeAccount(user.id);
+  }
+
+  invalidateCache.invalidateAll();
+
+  return res.json({
+    message: 'Account deleted successfully',
+  });
+}));
+
 export default router;
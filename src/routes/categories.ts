@@ -1,6 +1,9 @@
 import { Router, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
-import { asyncHandler } from '../middleware/validation';
+import { asyncHandler, handleValidationErrors } from '../middleware/validation';
+import { validateCategory } from '../middleware/validators';
+import { authenticateToken, requirePermission, generateSlug, AuthRequest } from '../utils/auth';
+import { invalidateCache } from '../middleware/cache';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -22,4 +25,185 @@ router.get('/', asyncHandler(async (req: any, res: Response) => {
   });
 }));
 
+// Create a category
+router.post('/', authenticateToken, requirePermission('categories:manage'), validateCategory, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { name } = req.body;
+  const slug = generateSlug(name);
+
+  const existingCategory = await prisma.category.findFirst({
+    where: {
+      OR: [
+        { name },
+        { slug },
+      ],
+    },
+  });
+
+  if (existingCategory) {
+    return res.status(400).json({
+      error: 'Category already exists',
+    });
+  }
+
+  const category = await prisma.category.create({
+    data: { name, slug },
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+    },
+  });
+
+  return res.status(201).json({
+    message: 'Category created successfully',
+    category,
+  });
+}));
+
+// Rename a category
+router.put('/:id', authenticateToken, requirePermission('categories:manage'), validateCategory, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+  const { name } = req.body;
+  const slug = generateSlug(name);
+
+  const existingCategory = await prisma.category.findUnique({
+    where: { id },
+  });
+
+  if (!existingCategory) {
+    return res.status(404).json({
+      error: 'Category not found',
+    });
+  }
+
+  const conflictingCategory = await prisma.category.findFirst({
+    where: {
+      id: { not: id },
+      OR: [
+        { name },
+        { slug },
+      ],
+    },
+  });
+
+  if (conflictingCategory) {
+    return res.status(400).json({
+      error: 'Category already exists',
+    });
+  }
+
+  const category = await prisma.category.update({
+    where: { id },
+    data: { name, slug },
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+    },
+  });
+
+  invalidateCache.invalidateAll();
+
+  return res.json({
+    message: 'Category updated successfully',
+    category,
+  });
+}));
+
+// Delete a category; its posts become uncategorized
+router.delete('/:id', authenticateToken, requirePermission('categories:manage'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+
+  const existingCategory = await prisma.category.findUnique({
+    where: { id },
+  });
+
+  if (!existingCategory) {
+    return res.status(404).json({
+      error: 'Category not found',
+    });
+  }
+
+  await prisma.category.delete({
+    where: { id },
+  });
+
+  invalidateCache.invalidateAll();
+
+  return res.json({
+    message: 'Category deleted successfully',
+  });
+}));
+
+// Follow a category so its posts show up in the feed
+router.post('/:id/follow', authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const { id } = req.params;
+  const userId = req.user.id;
+
+  const category = await prisma.category.findUnique({
+    where: { id },
+  });
+
+  if (!category) {
+    return res.status(404).json({
+      error: 'Category not found',
+    });
+  }
+
+  const existingFollow = await prisma.categoryFollow.findUnique({
+    where: { userId_categoryId: { userId, categoryId: id } },
+  });
+
+  if (existingFollow) {
+    return res.status(400).json({
+      error: 'Already following this category',
+    });
+  }
+
+  await prisma.categoryFollow.create({
+    data: { userId, categoryId: id },
+  });
+
+  return res.status(201).json({
+    message: 'Successfully followed category',
+    categoryId: id,
+  });
+}));
+
+router.delete('/:id/follow', authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const { id } = req.params;
+  const userId = req.user.id;
+
+  const existingFollow = await prisma.categoryFollow.findUnique({
+    where: { userId_categoryId: { userId, categoryId: id } },
+  });
+
+  if (!existingFollow) {
+    return res.status(400).json({
+      error: 'Not following this category',
+    });
+  }
+
+  await prisma.categoryFollow.delete({
+    where: { id: existingFollow.id },
+  });
+
+  return res.json({
+    message: 'Successfully unfollowed category',
+    categoryId: id,
+  });
+}));
+
 export default router;
@@ -0,0 +1,99 @@
+import { Router, Response } from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { authenticateWithScope, AuthRequest } from '../utils/auth';
+import { asyncHandler } from '../middleware/validation';
+import { postListInclude, formatPostList, publicPostWhere, shouldIncludeContent } from '../utils/posts';
+import { FEED_SOURCES, FeedSource } from '../constants/posts';
+import { getPagination, paginationArgs, paginationWhere, paginationOrderBy, paginationMeta, takePage, SortKey } from '../utils/pagination';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const newestFirst: SortKey[] = [
+  { field: 'createdAt', direction: 'desc', type: 'date' },
+  { field: 'id', direction: 'desc', type: 'string' },
+];
+
+// Follows are matched with subqueries in the database, so following thousands of
+// authors never loads their ids into the app or grows the query
+const sourceWhere = (source: FeedSource, viewerId: string): Prisma.PostWhereInput => {
+  switch (source) {
+    case 'authors':
+      return { author: { following: { some: { followerId: viewerId } } } };
+    case 'tags':
+      return { tags: { some: { tag: { followers: { some: { userId: viewerId } } } } } };
+    default:
+      return { category: { followers: { some: { userId: viewerId } } } };
+  }
+};
+
+// Published posts from followed authors, tags and categories, newest first
+router.get('/', authenticateWithScope('posts:read'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const sources = req.query.sources === undefined
+    ? [...FEED_SOURCES]
+    : String(req.query.sources).split(',').map((source) => source.trim());
+
+  if (sources.length === 0 || sources.some((source) => !FEED_SOURCES.includes(source as FeedSource))) {
+    return res.status(400).json({
+      error: `Invalid sources. Must be a comma-separated list of: ${FEED_SOURCES.join(', ')}`,
+    });
+  }
+
+  const pagination = getPagination(req.query, newestFirst);
+  if (!pagination) {
+    return res.status(400).json({
+      error: 'Invalid cursor',
+    });
+  }
+
+  const viewerId = req.user.id;
+
+  // Feeds are read by scrolling, so no total is counted
+  const rows = await prisma.post.findMany({
+    where: {
+      AND: [
+        publicPostWhere(),
+        { authorId: { not: viewerId } },
+        { OR: sources.map((source) => sourceWhere(source as FeedSource, viewerId)) },
+        paginationWhere(pagination),
+      ],
+    },
+    include: postListInclude,
+    orderBy: paginationOrderBy(pagination),
+    ...paginationArgs(pagination),
+  });
+  const { items: posts, nextCursor } = takePage(rows, pagination);
+
+  const postIds = posts.map((post) => post.id);
+  const [likes, saves] = await Promise.all([
+    prisma.postLike.findMany({
+      where: { userId: viewerId, postId: { in: postIds } },
+      select: { postId: true },
+    }),
+    prisma.savedPost.findMany({
+      where: { userId: viewerId, postId: { in: postIds } },
+      select: { postId: true },
+    }),
+  ]);
+  const likedIds = new Set(likes.map((like) => like.postId));
+  const savedIds = new Set(saves.map((save) => save.postId));
+
+  const feed = (await formatPostList(posts, shouldIncludeContent(req.query))).map((post) => ({
+    ...post,
+    likedByViewer: likedIds.has(post.id),
+    savedByViewer: savedIds.has(post.id),
+  }));
+
+  return res.json({
+    posts: feed,
+    pagination: paginationMeta(pagination, nextCursor),
+  });
+}));
+
+export default router;
@@ -1,24 +1,101 @@
 import { Router, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
-import { authenticateToken, generateSlug } from '../utils/auth';
-import { validatePost, validateComment } from '../middleware/validators';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { authenticateToken, authenticateWithScope, requireVerifiedEmail, requirePermission, hasPermission, generateSlug } from '../utils/auth';
+import { validatePost, validatePostPatch, validateComment, validateFeatured, validateSchedule, validateRevisionDiff } from '../middleware/validators';
 import { handleValidationErrors, asyncHandler } from '../middleware/validation';
 import { AuthRequest } from '../utils/auth';
 import { cacheMiddleware, invalidateCache } from '../middleware/cache';
 import { CACHE_CONFIG } from '../constants/cache';
+import { postListInclude, formatPostList, publicPostWhere, postStatusWhere, getPostStatus, getPurgeDate, getRenderedContent, shouldIncludeContent, omitContent, buildContentStatsData, getPostETag, getPostReadETag, checkIfMatch } from '../utils/posts';
+import { POST_STATUSES, PostStatus, COMMENT_MAX_DEPTH, COMMENT_SORTS, CommentSort, COMMENT_PAGE_LIMIT } from '../constants/posts';
+import { recordRevision, ensureBaselineRevision } from '../utils/revisions';
+import { diffLines } from '../utils/diff';
+import { getPagination, paginationArgs, paginationWhere, paginationOrderBy, paginationMeta, takePage, SortKey, CursorValueType } from '../utils/pagination';
+import { isSlugAvailable, isSlugConflict, recordSlugChange, findSlugRedirect, writeWithUniqueSlug } from '../utils/slugs';
+import { findCommentPage, getCommentThreads, deleteComment, COMMENT_SORT_KEYS } from '../utils/comments';
 
 const router = Router();
 const prisma = new PrismaClient();
 
+// Owners can always edit their posts; editors and admins can edit anyone's
+function canEditPost(user: NonNullable<AuthRequest['user']>, post: { authorId: string }): boolean {
+  return post.authorId === user.id || hasPermission(user.role, 'posts:edit-any');
+}
+
+// Conditional writes only touch the row if its version is still the one the client read
+function versionGuard(ifMatch: string | undefined, post: { version: number }): { version?: number } {
+  return ifMatch && ifMatch.trim() !== '*' ? { version: post.version } : {};
+}
+
+// The guarded row no longer matched, so another write got there first
+function isVersionConflict(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025';
+}
+
+// 428 when If-Match is required but missing; 412 with the current version when it is stale
+function sendPreconditionError(res: Response, reason: 'missing' | 'stale', post: { version: number }) {
+  if (reason === 'missing') {
+    return res.status(428).json({
+      error: 'If-Match header is required',
+    });
+  }
+
+  return res.status(412).set('ETag', getPostETag(post)).json({
+    error: 'Post has been modified since it was last read',
+    version: post.version,
+  });
+}
+
+async function sendVersionConflict(res: Response, id: string, fallback: { version: number }) {
+  const current = await prisma.post.findUnique({
+    where: { id },
+    select: { version: true },
+  });
+  return sendPreconditionError(res, 'stale', current || fallback);
+}
+
+// Runs a post write and records the resulting revision in the same transaction. Posts
+// without revisions get their state from before the write recorded first.
+function writeWithRevision<T extends { id: string }>(
+  editorId: string,
+  write: (tx: Prisma.TransactionClient) => Promise<T>,
+  existingPost?: { id: string; authorId: string }
+): Promise<T> {
+  return prisma.$transaction(async (tx) => {
+    if (existingPost) {
+      await ensureBaselineRevision(existingPost.id, existingPost.authorId, tx);
+    }
+    const post = await write(tx);
+    await recordRevision(post.id, editorId, tx);
+    return post;
+  });
+}
+
+// Sort order for lists that show the newest entries first
+const newestFirst: SortKey[] = [
+  { field: 'createdAt', direction: 'desc', type: 'date' },
+  { field: 'id', direction: 'desc', type: 'string' },
+];
+
+// Sort order for the trash, most recently deleted first
+const recentlyDeletedFirst: SortKey[] = [
+  { field: 'deletedAt', direction: 'desc', type: 'date' },
+  { field: 'id', direction: 'desc', type: 'string' },
+];
+
+const revisionEditorSelect = {
+  select: {
+    id: true,
+    username: true,
+  },
+};
+
 router.get('/', cacheMiddleware(CACHE_CONFIG.TTL_POSTS_LIST), asyncHandler(async (req: AuthRequest, res: Response) => {
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
   const titleQuery = req.query.title as string;
   const authorIdQuery = req.query.authorId as string;
   const categoryIdQuery = req.query.categoryId as string;
   const sortBy = (req.query.sortBy as string) || 'createdAt';
   const sortOrder = (req.query.sortOrder as string) || 'desc';
-  const skip = (page - 1) * limit;
 
   // Validate title query
   if (titleQuery !== undefined && (!titleQuery || titleQuery.trim().length === 0)) {
@@ -28,7 +105,8 @@ router.get('/', cacheMiddleware(CACHE_CONFIG.TTL_POSTS_LIST), asyncHandler(async
   }
 
   // Validate sort fields
-  const validSortFields = ['createdAt', 'updatedAt', 'title'];
+  const sortFieldTypes: Record<string, CursorValueType> = { createdAt: 'date', updatedAt: 'date', title: 'string' };
+  const validSortFields = Object.keys(sortFieldTypes);
   if (!validSortFields.includes(sortBy)) {
     return res.status(400).json({
       error: `Invalid sort field. Must be one of: ${validSortFields.join(', ')}`,
@@ -44,7 +122,7 @@ router.get('/', cacheMiddleware(CACHE_CONFIG.TTL_POSTS_LIST), asyncHandler(async
   }
 
   // Build where clause
-  const whereClause: any = { published: true };
+  const whereClause: any = publicPostWhere();
 
   if (titleQuery && titleQuery.trim()) {
     whereClause.title = {
@@ -61,160 +139,156 @@ router.get('/', cacheMiddleware(CACHE_CONFIG.TTL_POSTS_LIST), asyncHandler(async
     whereClause.categoryId = categoryIdQuery;
   }
 
-  // Build order by clause - featured posts first, then apply other sort params
-  const orderBy: any[] = [
-    { featured: 'desc' }, // Featured posts first
-    { [sortBy]: sortOrder.toLowerCase() as 'asc' | 'desc' }, // Then apply user's sort preference
+  // Featured posts first, then the user's sort preference, with id breaking ties
+  const direction = sortOrder.toLowerCase() as 'asc' | 'desc';
+  const sortKeys: SortKey[] = [
+    { field: 'featured', direction: 'desc', type: 'boolean' },
+    { field: sortBy, direction, type: sortFieldTypes[sortBy] },
+    { field: 'id', direction, type: 'string' },
   ];
 
-  const posts = await prisma.post.findMany({
-    where: whereClause,
-    include: {
-      author: {
-        select: {
-          id: true,
-          username: true,
-        },
-      },
-      category: {
-        select: {
-          id: true,
-          name: true,
-          slug: true,
-        },
-      },
-      tags: {
-        include: {
-          tag: {
-            select: {
-              id: true,
-              name: true,
-            },
-          },
-        },
-      },
-    },
-    orderBy,
-    skip,
-    take: limit,
+  const pagination = getPagination(req.query, sortKeys);
+  if (!pagination) {
+    return res.status(400).json({
+      error: 'Invalid cursor',
+    });
+  }
+
+  const rows = await prisma.post.findMany({
+    where: { AND: [whereClause, paginationWhere(pagination)] },
+    include: postListInclude,
+    orderBy: paginationOrderBy(pagination),
+    ...paginationArgs(pagination),
   });
+  const { items: posts, nextCursor } = takePage(rows, pagination);
 
   // Get like counts for each post
-  const postsWithLikes = await Promise.all(
-    posts.map(async (post) => {
-      const likeCount = await prisma.postLike.count({
-        where: { postId: post.id },
-      });
-      return {
-        ...post,
-        likeCount,
-        tags: post.tags.map((postTag: any) => postTag.tag),
-      };
-    })
-  );
+  const postsWithLikes = await formatPostList(posts, shouldIncludeContent(req.query));
 
-  const total = await prisma.post.count({
+  // Cursor pages skip the count
+  const total = pagination.after ? undefined : await prisma.post.count({
     where: whereClause,
   });
 
   return res.json({
     posts: postsWithLikes,
-    pagination: {
-      page,
-      limit,
-      total,
-      pages: Math.ceil(total / limit),
-    },
+    pagination: paginationMeta(pagination, nextCursor, total),
   });
 }));
 
-// Get all posts for authenticated user (including unpublished)
-router.get('/my-posts', authenticateToken, cacheMiddleware(CACHE_CONFIG.TTL_POSTS_LIST), asyncHandler(async (req: AuthRequest, res: Response) => {
+// Get all posts for authenticated user (including drafts and scheduled posts)
+router.get('/my-posts', authenticateWithScope('posts:read'), cacheMiddleware(CACHE_CONFIG.TTL_POSTS_LIST), asyncHandler(async (req: AuthRequest, res: Response) => {
   if (!req.user) {
     return res.status(401).json({
       error: 'Authentication required',
     });
   }
 
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
+  const status = req.query.status as PostStatus | undefined;
 
-  const posts = await prisma.post.findMany({
-    where: { authorId: req.user.id },
-    include: {
-      author: {
-        select: {
-          id: true,
-          username: true,
-        },
-      },
-      category: {
-        select: {
-          id: true,
-          name: true,
-          slug: true,
-        },
-      },
-      tags: {
-        include: {
-          tag: {
-            select: {
-              id: true,
-              name: true,
-            },
-          },
-        },
-      },
-    },
-    orderBy: { createdAt: 'desc' },
-    skip,
-    take: limit,
+  if (status !== undefined && !POST_STATUSES.includes(status)) {
+    return res.status(400).json({
+      error: `Invalid status. Must be one of: ${POST_STATUSES.join(', ')}`,
+    });
+  }
+
+  const pagination = getPagination(req.query, newestFirst);
+  if (!pagination) {
+    return res.status(400).json({
+      error: 'Invalid cursor',
+    });
+  }
+
+  const whereClause = {
+    authorId: req.user.id,
+    deletedAt: null,
+    ...(status ? { AND: [postStatusWhere(status)] } : {}),
+  };
+
+  const rows = await prisma.post.findMany({
+    where: { AND: [whereClause, paginationWhere(pagination)] },
+    include: postListInclude,
+    orderBy: paginationOrderBy(pagination),
+    ...paginationArgs(pagination),
   });
+  const { items: posts, nextCursor } = takePage(rows, pagination);
 
   // Get like counts for each post
-  const postsWithLikes = await Promise.all(
-    posts.map(async (post) => {
-      const likeCount = await prisma.postLike.count({
-        where: { postId: post.id },
-      });
-      return {
-        ...post,
-        likeCount,
-        tags: post.tags.map((postTag: any) => postTag.tag),
-      };
-    })
-  );
+  const postsWithLikes = (await formatPostList(posts, shouldIncludeContent(req.query))).map((post) => ({
+    ...post,
+    status: getPostStatus(post),
+  }));
 
-  const total = await prisma.post.count({
-    where: { authorId: req.user.id },
+  const total = pagination.after ? undefined : await prisma.post.count({
+    where: whereClause,
   });
 
   return res.json({
     posts: postsWithLikes,
-    pagination: {
-      page,
-      limit,
-      total,
-      pages: Math.ceil(total / limit),
-    },
+    pagination: paginationMeta(pagination, nextCursor, total),
+  });
+}));
+
+// Get the authenticated user's trashed posts with the date each will be purged
+router.get('/trash', authenticateWithScope('posts:read'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const pagination = getPagination(req.query, recentlyDeletedFirst);
+  if (!pagination) {
+    return res.status(400).json({
+      error: 'Invalid cursor',
+    });
+  }
+
+  const whereClause = {
+    authorId: req.user.id,
+    deletedAt: { not: null },
+  };
+
+  const rows = await prisma.post.findMany({
+    where: { AND: [whereClause, paginationWhere(pagination)] },
+    include: postListInclude,
+    orderBy: paginationOrderBy(pagination),
+    ...paginationArgs(pagination),
+  });
+  const { items: posts, nextCursor } = takePage(rows, pagination);
+
+  const total = pagination.after ? undefined : await prisma.post.count({
+    where: whereClause,
+  });
+
+  return res.json({
+    posts: (await formatPostList(posts, shouldIncludeContent(req.query))).map((post) => ({
+      ...post,
+      purgeAt: getPurgeDate(post.deletedAt!),
+    })),
+    pagination: paginationMeta(pagination, nextCursor, total),
   });
 }));
 
 // Get saved posts for authenticated user
-router.get('/saved', authenticateToken, cacheMiddleware(CACHE_CONFIG.TTL_POSTS_LIST), asyncHandler(async (req: AuthRequest, res: Response) => {
+router.get('/saved', authenticateWithScope('posts:read'), cacheMiddleware(CACHE_CONFIG.TTL_POSTS_LIST), asyncHandler(async (req: AuthRequest, res: Response) => {
   if (!req.user) {
     return res.status(401).json({
       error: 'Authentication required',
     });
   }
 
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query, newestFirst);
+  if (!pagination) {
+    return res.status(400).json({
+      error: 'Invalid cursor',
+    });
+  }
+
+  const whereClause = { userId: req.user.id, post: { deletedAt: null } };
 
-  const savedPosts = await prisma.savedPost.findMany({
-    where: { userId: req.user.id },
+  const rows = await prisma.savedPost.findMany({
+    where: { AND: [whereClause, paginationWhere(pagination)] },
     include: {
       post: {
         include: {
@@ -244,10 +318,10 @@ router.get('/saved', authenticateToken, cacheMiddleware(CACHE_CONFIG.TTL_POSTS_L
         },
       },
     },
-    orderBy: { createdAt: 'desc' },
-    skip,
-    take: limit,
+    orderBy: paginationOrderBy(pagination),
+    ...paginationArgs(pagination),
   });
+  const { items: savedPosts, nextCursor } = takePage(rows, pagination);
 
   // Get like counts for each post
   const postsWithLikes = await Promise.all(
@@ -256,7 +330,7 @@ router.get('/saved', authenticateToken, cacheMiddleware(CACHE_CONFIG.TTL_POSTS_L
         where: { postId: savedPost.post.id },
       });
       return {
-        ...savedPost.post,
+        ...omitContent(savedPost.post, shouldIncludeContent(req.query)),
         likeCount,
         savedAt: savedPost.createdAt,
         tags: savedPost.post.tags.map((postTag: any) => postTag.tag),
@@ -264,24 +338,19 @@ router.get('/saved', authenticateToken, cacheMiddleware(CACHE_CONFIG.TTL_POSTS_L
     })
   );
 
-  const total = await prisma.savedPost.count({
-    where: { userId: req.user.id },
+  const total = pagination.after ? undefined : await prisma.savedPost.count({
+    where: whereClause,
   });
 
   return res.json({
     posts: postsWithLikes,
-    pagination: {
-      page,
-      limit,
-      total,
-      pages: Math.ceil(total / limit),
-    },
+    pagination: paginationMeta(pagination, nextCursor, total),
   });
 }));
 
 // Helper function to calculate thread depth
 async function getThreadDepth(commentId: string, depth: number = 0): Promise<number> {
-  if (depth >= 5) {
+  if (depth >= COMMENT_MAX_DEPTH) {
     return depth;
   }
 
@@ -297,13 +366,18 @@ async function getThreadDepth(commentId: string, depth: number = 0): Promise<num
   return getThreadDepth(comment.parentId, depth + 1);
 }
 
+// Comment authors, the post's author and moderators can edit or delete a comment
+function canModifyComment(user: NonNullable<AuthRequest['user']>, comment: { userId: string | null }, post: { authorId: string }): boolean {
+  return comment.userId === user.id || post.authorId === user.id || hasPermission(user.role, 'comments:moderate');
+}
+
 // Get comments for a post
 router.get('/:postId/comments', asyncHandler(async (req: AuthRequest, res: Response) => {
   const { postId } = req.params;
 
   // Check if post exists
   const post = await prisma.post.findUnique({
-    where: { id: postId },
+    where: { id: postId, deletedAt: null },
   });
 
   if (!post) {
@@ -312,93 +386,86 @@ router.get('/:postId/comments', asyncHandler(async (req: AuthRequest, res: Respo
     });
   }
 
-  // Recursively get nested replies
-  async function getNestedReplies(parentId: string, currentDepth: number = 0): Promise<any[]> {
-    if (currentDepth >= 5) {
-      return [];
-    }
+  const sort = (req.query.sort as CommentSort | undefined) || 'oldest';
+  if (!COMMENT_SORTS.includes(sort)) {
+    return res.status(400).json({
+      error: `Invalid sort. Must be one of: ${COMMENT_SORTS.join(', ')}`,
+    });
+  }
 
-    const replies = await prisma.comment.findMany({
-      where: {
-        parentId: parentId,
-        postId: postId  // Ensure replies belong to the same post
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            username: true,
-          },
-        },
-      },
-      orderBy: { createdAt: 'asc' },
-    });
-
-    const repliesWithNested = await Promise.all(
-      replies.map(async (reply: any) => {
-        const likeCount = await prisma.commentLike.count({
-          where: { commentId: reply.id },
-        });
-        return {
-          id: reply.id,
-          content: reply.content,
-          postId: reply.postId,
-          userId: reply.userId,
-          parentId: reply.parentId,
-          createdAt: reply.createdAt,
-          updatedAt: reply.updatedAt,
-          user: reply.user,
-          likeCount,
-          replies: await getNestedReplies(reply.id, currentDepth + 1),
-        };
-      })
-    );
-
-    return repliesWithNested;
-  }
-
-  // Get all top-level comments (no parent)
-  const comments = await prisma.comment.findMany({
-    where: { postId, parentId: null },
-    include: {
-      user: {
-        select: {
-          id: true,
-          username: true,
-        },
-      },
-    },
-    orderBy: { createdAt: 'asc' },
+  const pagination = getPagination(req.query, COMMENT_SORT_KEYS[sort], COMMENT_PAGE_LIMIT);
+  if (!pagination) {
+    return res.status(400).json({
+      error: 'Invalid cursor',
+    });
+  }
+
+  const [{ items, nextCursor }, total] = await Promise.all([
+    findCommentPage(postId, null, pagination),
+    pagination.after ? undefined : prisma.comment.count({
+      where: { postId, parentId: null },
+    }),
+  ]);
+
+  return res.json({
+    comments: await getCommentThreads(items, sort),
+    pagination: paginationMeta(pagination, nextCursor, total),
   });
+}));
 
-  // Add nested replies to top-level comments
-  const commentsWithReplies = await Promise.all(
-    comments.map(async (comment: any) => {
-      const likeCount = await prisma.commentLike.count({
-        where: { commentId: comment.id },
-      });
-      return {
-        id: comment.id,
-        content: comment.content,
-        postId: comment.postId,
-        userId: comment.userId,
-        parentId: comment.parentId,
-        createdAt: comment.createdAt,
-        updatedAt: comment.updatedAt,
-        user: comment.user,
-        likeCount,
-        replies: await getNestedReplies(comment.id, 0),
-      };
-    })
-  );
+// Load more replies to a comment, starting from its repliesCursor
+router.get('/:postId/comments/:commentId/replies', asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { postId, commentId } = req.params;
+
+  const post = await prisma.post.findUnique({
+    where: { id: postId, deletedAt: null },
+  });
+
+  if (!post) {
+    return res.status(404).json({
+      error: 'Post not found',
+    });
+  }
+
+  const comment = await prisma.comment.findUnique({
+    where: { id: commentId },
+  });
+
+  if (!comment || comment.postId !== postId) {
+    return res.status(404).json({
+      error: 'Comment not found',
+    });
+  }
+
+  const sort = (req.query.sort as CommentSort | undefined) || 'oldest';
+  if (!COMMENT_SORTS.includes(sort)) {
+    return res.status(400).json({
+      error: `Invalid sort. Must be one of: ${COMMENT_SORTS.join(', ')}`,
+    });
+  }
+
+  const pagination = getPagination(req.query, COMMENT_SORT_KEYS[sort], COMMENT_PAGE_LIMIT);
+  if (!pagination) {
+    return res.status(400).json({
+      error: 'Invalid cursor',
+    });
+  }
+
+  const [{ items, nextCursor }, total] = await Promise.all([
+    findCommentPage(postId, commentId, pagination),
+    pagination.after ? undefined : prisma.comment.count({
+      where: { parentId: commentId },
+    }),
+  ]);
 
   return res.json({
-    comments: commentsWithReplies,
+    replies: await getCommentThreads(items, sort),
+    pagination: paginationMeta(pagination, nextCursor, total),
   });
 }));
 
 // Create a comment on a post
-router.post('/:postId/comments', authenticateToken, validateComment, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+router.post('/:postId/comments', authenticateWithScope('comments:write'), requireVerifiedEmail, requirePermission('comments:write'), validateComment, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
   if (!req.user) {
     return res.status(401).json({
       error: 'Authentication required',
@@ -410,7 +477,7 @@ router.post('/:postId/comments', authenticateToken, validateComment, handleValid
 
   // Check if post exists
   const post = await prisma.post.findUnique({
-    where: { id: postId },
+    where: { id: postId, deletedAt: null },
   });
 
   if (!post) {
@@ -445,7 +512,7 @@ router.post('/:postId/comments', authenticateToken, validateComment, handleValid
 }));
 
 // Reply to a comment
-router.post('/:postId/comments/:commentId/reply', authenticateToken, validateComment, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+router.post('/:postId/comments/:commentId/reply', authenticateWithScope('comments:write'), requireVerifiedEmail, requirePermission('comments:write'), validateComment, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
   if (!req.user) {
     return res.status(401).json({
       error: 'Authentication required',
@@ -457,7 +524,7 @@ router.post('/:postId/comments/:commentId/reply', authenticateToken, validateCom
 
   // Check if post exists
   const post = await prisma.post.findUnique({
-    where: { id: postId },
+    where: { id: postId, deletedAt: null },
   });
 
   if (!post) {
@@ -477,11 +544,17 @@ router.post('/:postId/comments/:commentId/reply', authenticateToken, validateCom
     });
   }
 
+  if (parentComment.deletedAt) {
+    return res.status(400).json({
+      error: 'Cannot reply to a deleted comment',
+    });
+  }
+
   // Check thread depth
   const threadDepth = await getThreadDepth(commentId);
-  if (threadDepth >= 5) {
+  if (threadDepth >= COMMENT_MAX_DEPTH) {
     return res.status(400).json({
-      error: 'Maximum thread depth of 5 levels reached',
+      error: `Maximum thread depth of ${COMMENT_MAX_DEPTH} levels reached`,
     });
   }
 
@@ -511,8 +584,8 @@ router.post('/:postId/comments/:commentId/reply', authenticateToken, validateCom
   });
 }));
 
-// Like a comment
-router.post('/:postId/comments/:commentId/like', authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
+// Edit a comment
+router.patch('/:postId/comments/:commentId', authenticateWithScope('comments:write'), requireVerifiedEmail, validateComment, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
   if (!req.user) {
     return res.status(401).json({
       error: 'Authentication required',
@@ -520,10 +593,10 @@ router.post('/:postId/comments/:commentId/like', authenticateToken, asyncHandler
   }
 
   const { postId, commentId } = req.params;
+  const { content } = req.body;
 
-  // Check if post exists
   const post = await prisma.post.findUnique({
-    where: { id: postId },
+    where: { id: postId, deletedAt: null },
   });
 
   if (!post) {
@@ -532,7 +605,6 @@ router.post('/:postId/comments/:commentId/like', authenticateToken, asyncHandler
     });
   }
 
-  // Check if comment exists and belongs to the post
   const comment = await prisma.comment.findUnique({
     where: { id: commentId },
   });
@@ -543,45 +615,44 @@ router.post('/:postId/comments/:commentId/like', authenticateToken, asyncHandler
     });
   }
 
-  // Check if user already liked this comment
-  const existingLike = await prisma.commentLike.findUnique({
-    where: {
-      userId_commentId: {
-        userId: req.user.id,
-        commentId: commentId,
-      },
-    },
-  });
+  if (!canModifyComment(req.user, comment, post)) {
+    return res.status(403).json({
+      error: 'You can only edit your own comments',
+    });
+  }
 
-  if (existingLike) {
+  if (comment.deletedAt) {
     return res.status(400).json({
-      error: 'You have already liked this comment',
+      error: 'Cannot edit a deleted comment',
     });
   }
 
-  // Create the like
-  await prisma.commentLike.create({
+  const updatedComment = await prisma.comment.update({
+    where: { id: commentId },
     data: {
-      userId: req.user.id,
-      commentId: commentId,
+      content,
+      editedAt: new Date(),
+    },
+    include: {
+      user: {
+        select: {
+          id: true,
+          username: true,
+        },
+      },
     },
-  });
-
-  // Get updated like count
-  const likeCount = await prisma.commentLike.count({
-    where: { commentId: commentId },
   });
 
   invalidateCache.invalidatePostCache(post.slug);
 
-  return res.status(201).json({
-    message: 'Comment liked successfully',
-    likeCount,
+  return res.json({
+    message: 'Comment updated successfully',
+    comment: updatedComment,
   });
 }));
 
-// Unlike a comment
-router.delete('/:postId/comments/:commentId/like', authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
+// Delete a comment; one with replies is kept as a "[deleted]" tombstone
+router.delete('/:postId/comments/:commentId', authenticateWithScope('comments:write'), asyncHandler(async (req: AuthRequest, res: Response) => {
   if (!req.user) {
     return res.status(401).json({
       error: 'Authentication required',
@@ -590,9 +661,8 @@ router.delete('/:postId/comments/:commentId/like', authenticateToken, asyncHandl
 
   const { postId, commentId } = req.params;
 
-  // Check if post exists
   const post = await prisma.post.findUnique({
-    where: { id: postId },
+    where: { id: postId, deletedAt: null },
   });
 
   if (!post) {
@@ -601,30 +671,146 @@ router.delete('/:postId/comments/:commentId/like', authenticateToken, asyncHandl
     });
   }
 
-  // Check if comment exists and belongs to the post
   const comment = await prisma.comment.findUnique({
     where: { id: commentId },
   });
 
-  if (!comment || comment.postId !== postId) {
+  if (!comment || comment.postId !== postId || comment.deletedAt) {
     return res.status(404).json({
       error: 'Comment not found',
     });
   }
 
-  // Check if user has liked this comment
-  const existingLike = await prisma.commentLike.findUnique({
-    where: {
-      userId_commentId: {
-        userId: req.user.id,
-        commentId: commentId,
-      },
-    },
-  });
-
-  if (!existingLike) {
-    return res.status(400).json({
-      error: 'You have not liked this comment',
+  if (!canModifyComment(req.user, comment, post)) {
+    return res.status(403).json({
+      error: 'You can only delete your own comments',
+    });
+  }
+
+  const outcome = await deleteComment(comment);
+
+  invalidateCache.invalidatePostCache(post.slug);
+
+  return res.json({
+    message: 'Comment deleted successfully',
+    tombstoned: outcome === 'tombstoned',
+  });
+}));
+
+// Like a comment
+router.post('/:postId/comments/:commentId/like', authenticateWithScope('comments:write'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const { postId, commentId } = req.params;
+
+  // Check if post exists
+  const post = await prisma.post.findUnique({
+    where: { id: postId, deletedAt: null },
+  });
+
+  if (!post) {
+    return res.status(404).json({
+      error: 'Post not found',
+    });
+  }
+
+  // Check if comment exists and belongs to the post
+  const comment = await prisma.comment.findUnique({
+    where: { id: commentId },
+  });
+
+  if (!comment || comment.postId !== postId || comment.deletedAt) {
+    return res.status(404).json({
+      error: 'Comment not found',
+    });
+  }
+
+  // Check if user already liked this comment
+  const existingLike = await prisma.commentLike.findUnique({
+    where: {
+      userId_commentId: {
+        userId: req.user.id,
+        commentId: commentId,
+      },
+    },
+  });
+
+  if (existingLike) {
+    return res.status(400).json({
+      error: 'You have already liked this comment',
+    });
+  }
+
+  // Create the like
+  await prisma.commentLike.create({
+    data: {
+      userId: req.user.id,
+      commentId: commentId,
+    },
+  });
+
+  // Get updated like count
+  const likeCount = await prisma.commentLike.count({
+    where: { commentId: commentId },
+  });
+
+  invalidateCache.invalidatePostCache(post.slug);
+
+  return res.status(201).json({
+    message: 'Comment liked successfully',
+    likeCount,
+  });
+}));
+
+// Unlike a comment
+router.delete('/:postId/comments/:commentId/like', authenticateWithScope('comments:write'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const { postId, commentId } = req.params;
+
+  // Check if post exists
+  const post = await prisma.post.findUnique({
+    where: { id: postId, deletedAt: null },
+  });
+
+  if (!post) {
+    return res.status(404).json({
+      error: 'Post not found',
+    });
+  }
+
+  // Check if comment exists and belongs to the post
+  const comment = await prisma.comment.findUnique({
+    where: { id: commentId },
+  });
+
+  if (!comment || comment.postId !== postId) {
+    return res.status(404).json({
+      error: 'Comment not found',
+    });
+  }
+
+  // Check if user has liked this comment
+  const existingLike = await prisma.commentLike.findUnique({
+    where: {
+      userId_commentId: {
+        userId: req.user.id,
+        commentId: commentId,
+      },
+    },
+  });
+
+  if (!existingLike) {
+    return res.status(400).json({
+      error: 'You have not liked this comment',
     });
   }
 
@@ -656,8 +842,8 @@ router.get('/:slug/related', cacheMiddleware(CACHE_CONFIG.TTL_POSTS_LIST), async
   const { slug } = req.params;
 
   // Find the post by slug
-  const post = await prisma.post.findUnique({
-    where: { slug, published: true },
+  const post = await prisma.post.findFirst({
+    where: { slug, ...publicPostWhere() },
     include: {
       tags: {
         include: {
@@ -686,7 +872,7 @@ router.get('/:slug/related', cacheMiddleware(CACHE_CONFIG.TTL_POSTS_LIST), async
 
   const relatedPosts = await prisma.post.findMany({
     where: {
-      published: true,
+      ...publicPostWhere(),
       id: {
         not: post.id,
       },
@@ -737,7 +923,7 @@ router.get('/:slug/related', cacheMiddleware(CACHE_CONFIG.TTL_POSTS_LIST), async
         where: { postId: relatedPost.id },
       });
       return {
-        ...relatedPost,
+        ...omitContent(relatedPost, shouldIncludeContent(req.query)),
         likeCount,
         tags: relatedPost.tags.map((postTag: any) => postTag.tag),
       };
@@ -753,8 +939,8 @@ router.get('/:slug/related', cacheMiddleware(CACHE_CONFIG.TTL_POSTS_LIST), async
 router.get('/:slug', cacheMiddleware(CACHE_CONFIG.TTL_POSTS_SINGLE), asyncHandler(async (req: AuthRequest, res: Response) => {
   const { slug } = req.params;
 
-  const post = await prisma.post.findUnique({
-    where: { slug, published: true },
+  const post = await prisma.post.findFirst({
+    where: { slug, ...publicPostWhere() },
     include: {
       author: {
         select: {
@@ -783,6 +969,18 @@ router.get('/:slug', cacheMiddleware(CACHE_CONFIG.TTL_POSTS_SINGLE), asyncHandle
   });
 
   if (!post) {
+    // Old slugs of renamed posts redirect to the current one
+    const currentSlug = await findSlugRedirect(slug);
+    if (currentSlug) {
+      const queryIndex = req.originalUrl.indexOf('?');
+      const location = `${req.baseUrl}/${currentSlug}${queryIndex >= 0 ? req.originalUrl.slice(queryIndex) : ''}`;
+      return res.status(301).location(location).json({
+        message: 'Post has moved',
+        slug: currentSlug,
+        location,
+      });
+    }
+
     return res.status(404).json({
       error: 'Post not found',
     });
@@ -791,6 +989,13 @@ router.get('/:slug', cacheMiddleware(CACHE_CONFIG.TTL_POSTS_SINGLE), asyncHandle
   const likeCount = await prisma.postLike.count({
     where: { postId: post.id },
   });
+  const variant = req.query.render === 'html' ? 'html' : 'markdown';
+
+  // Clients revalidating an unchanged post get a 304 without the body
+  res.set('ETag', getPostReadETag(post, likeCount, variant));
+  if (req.fresh) {
+    return res.status(304).end();
+  }
 
   if (post.published) {
     await prisma.post.update({
@@ -810,14 +1015,20 @@ router.get('/:slug', cacheMiddleware(CACHE_CONFIG.TTL_POSTS_SINGLE), asyncHandle
     tags: post.tags.map((postTag: any) => postTag.tag),
   };
 
+  // Rendered HTML and table of contents are opt-in via ?render=html
+  if (req.query.render === 'html') {
+    const { html, toc } = getRenderedContent(post);
+    return res.json({ post: { ...postWithLikes, contentHtml: html, toc } });
+  }
+
   return res.json({ post: postWithLikes });
 }));
 
-router.get('/drafts/:slug', authenticateToken, cacheMiddleware(CACHE_CONFIG.TTL_POSTS_SINGLE), asyncHandler(async (req: AuthRequest, res: Response) => {
+router.get('/drafts/:slug', authenticateWithScope('posts:read'), cacheMiddleware(CACHE_CONFIG.TTL_POSTS_SINGLE), asyncHandler(async (req: AuthRequest, res: Response) => {
   const { slug } = req.params;
 
   const post = await prisma.post.findUnique({
-    where: { slug, published: false },
+    where: { slug, published: false, deletedAt: null },
     include: {
       author: {
         select: {
@@ -851,7 +1062,7 @@ router.get('/drafts/:slug', authenticateToken, cacheMiddleware(CACHE_CONFIG.TTL_
     });
   }
 
-  if ((!req.user || req.user.id !== post.authorId)) {
+  if (!req.user || (req.user.id !== post.authorId && !hasPermission(req.user.role, 'posts:edit-any'))) {
     return res.status(403).json({
       error: 'Not authorized to view this post',
     });
@@ -861,45 +1072,65 @@ router.get('/drafts/:slug', authenticateToken, cacheMiddleware(CACHE_CONFIG.TTL_
     where: { postId: post.id },
   });
 
+  res.set('ETag', getPostReadETag(post, likeCount, req.query.render === 'html' ? 'html' : 'markdown'));
+  if (req.fresh) {
+    return res.status(304).end();
+  }
+
   const postWithLikes = {
     ...post,
     likeCount,
     tags: post.tags.map((postTag: any) => postTag.tag),
   };
 
+  // Rendered HTML and table of contents are opt-in via ?render=html
+  if (req.query.render === 'html') {
+    const { html, toc } = getRenderedContent(post);
+    return res.json({ post: { ...postWithLikes, contentHtml: html, toc } });
+  }
+
   return res.json({ post: postWithLikes });
 }));
 
 // Create new post
-router.post('/', validatePost, authenticateToken, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+router.post('/', validatePost, authenticateWithScope('posts:write'), requireVerifiedEmail, requirePermission('posts:write'), handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
   if (!req.user) {
     return res.status(401).json({
       error: 'Authentication required',
     });
   }
 
-  const { title, content, published = false, featured = false, categoryId, metaTitle, metaDescription, ogImage, tags } = req.body;
-  const slug = generateSlug(title);
+  const { title, content, excerpt, slug: customSlug, published = false, featured = false, publishAt, categoryId, metaTitle, metaDescription, ogImage, tags } = req.body;
 
-  // Check if slug already exists
-  const existingPost = await prisma.post.findUnique({
-    where: { slug },
-  });
+  if (featured && !hasPermission(req.user.role, 'posts:feature')) {
+    return res.status(403).json({
+      error: 'Not authorized to feature posts',
+    });
+  }
+
+  if (publishAt && published) {
+    return res.status(400).json({
+      error: 'A post cannot be both published and scheduled',
+    });
+  }
 
-  if (existingPost) {
+  if (customSlug && !(await isSlugAvailable(customSlug))) {
     return res.status(400).json({
-      error: 'A post with this title already exists',
+      error: 'A post with this slug already exists',
     });
   }
 
-  const post = await prisma.post.create({
+  const authorId = req.user.id;
+  const createPost = (slug: string) => writeWithRevision(authorId, (tx) => tx.post.create({
     data: {
       title,
       content,
+      ...buildContentStatsData(content, excerpt),
       slug,
       published,
+      publishAt: publishAt ? new Date(publishAt) : null,
       featured,
-      authorId: req.user.id,
+      authorId,
       categoryId,
       metaTitle,
       metaDescription,
@@ -933,7 +1164,24 @@ router.post('/', validatePost, authenticateToken, handleValidationErrors, asyncH
         },
       },
     },
-  });
+  }));
+
+  // Generated slugs get a numeric suffix when the title is already taken; a custom slug
+  // taken since the check above is reported like one that was taken before it
+  let post;
+  try {
+    post = customSlug ? await createPost(customSlug) : await writeWithUniqueSlug(generateSlug(title), createPost);
+  } catch (error) {
+    if (isSlugConflict(error)) {
+      return res.status(400).json({
+        error: 'A post with this slug already exists',
+      });
+    }
+    throw error;
+  }
+  // The slug may have been an old slug of another post
+  await prisma.postSlugHistory.deleteMany({ where: { slug: post.slug } });
+
   invalidateCache.invalidateListCaches();
   if (req.user) {
     invalidateCache.invalidateUserCaches(req.user.id);
@@ -951,7 +1199,7 @@ router.post('/', validatePost, authenticateToken, handleValidationErrors, asyncH
 }));
 
 // Update post
-router.put('/:id', validatePost, authenticateToken, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+router.put('/:id', validatePost, authenticateWithScope('posts:write'), handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
   if (!req.user) {
     return res.status(401).json({
       error: 'Authentication required',
@@ -959,11 +1207,11 @@ router.put('/:id', validatePost, authenticateToken, handleValidationErrors, asyn
   }
 
   const { id } = req.params;
-  const { title, content, published, featured, categoryId, metaTitle, metaDescription, ogImage, tags } = req.body;
+  const { title, content, excerpt, slug: customSlug, published, featured, publishAt, categoryId, metaTitle, metaDescription, ogImage, tags } = req.body;
 
   // Check if post exists and user owns it
   const existingPost = await prisma.post.findUnique({
-    where: { id },
+    where: { id, deletedAt: null },
   });
 
   if (!existingPost) {
@@ -972,50 +1220,63 @@ router.put('/:id', validatePost, authenticateToken, handleValidationErrors, asyn
     });
   }
 
-  if (existingPost.authorId !== req.user.id) {
+  if (existingPost.authorId !== req.user.id && !hasPermission(req.user.role, 'posts:edit-any')) {
     return res.status(403).json({
       error: 'Not authorized to update this post',
     });
   }
 
-  // Generate new slug if title changed
-  let slug = existingPost.slug;
-  if (title !== existingPost.title) {
-    slug = generateSlug(title);
+  if (featured !== undefined && featured !== existingPost.featured && !hasPermission(req.user.role, 'posts:feature')) {
+    return res.status(403).json({
+      error: 'Not authorized to feature posts',
+    });
+  }
+
+  const ifMatch = req.get('If-Match');
+  const precondition = checkIfMatch(ifMatch, existingPost);
+  if (precondition) {
+    return sendPreconditionError(res, precondition, existingPost);
+  }
 
-    // Check if new slug already exists
-    const slugExists = await prisma.post.findUnique({
-      where: { slug },
+  if (publishAt && (published === true || (published === undefined && existingPost.published))) {
+    return res.status(400).json({
+      error: 'A post cannot be both published and scheduled',
     });
+  }
 
-    if (slugExists && slugExists.id !== id) {
-      return res.status(400).json({
-        error: 'A post with this title already exists',
-      });
-    }
+  // Scheduling implies unpublished; an explicit publish or unpublish clears any schedule
+  let scheduleData: { published?: boolean; publishAt?: Date | null } = {};
+  if (publishAt) {
+    scheduleData = { published: false, publishAt: new Date(publishAt) };
+  } else if (publishAt === null || published !== undefined) {
+    scheduleData = { publishAt: null };
   }
 
-  // Update tags if provided
-  if (tags !== undefined) {
-    // Delete all existing tags for this post
-    await prisma.postTag.deleteMany({
-      where: { postId: id },
+  if (customSlug && !(await isSlugAvailable(customSlug, id))) {
+    return res.status(400).json({
+      error: 'A post with this slug already exists',
     });
   }
 
-  const post = await prisma.post.update({
-    where: { id },
+  const editorId = req.user.id;
+  const updatePost = (slug: string) => writeWithRevision(editorId, (tx) => tx.post.update({
+    where: { id, ...versionGuard(ifMatch, existingPost) },
     data: {
       title,
       content,
+      ...buildContentStatsData(content, excerpt, existingPost),
       slug,
       published,
+      ...scheduleData,
       featured,
       categoryId,
       metaTitle,
       metaDescription,
       ogImage,
+      version: { increment: 1 },
+      // Replace tags if provided
       tags: tags !== undefined ? {
+        deleteMany: {},
         create: tags && tags.length > 0 ? tags.map((tagId: string) => ({ tagId })) : [],
       } : undefined,
     },
@@ -1044,10 +1305,36 @@ router.put('/:id', validatePost, authenticateToken, handleValidationErrors, asyn
         },
       },
     },
-  });
+  }), existingPost);
+
+  // An explicit slug wins; otherwise a title change generates a new, unique one
+  let post;
+  try {
+    if (customSlug) {
+      post = await updatePost(customSlug);
+    } else if (title !== existingPost.title) {
+      post = await writeWithUniqueSlug(generateSlug(title), updatePost, id);
+    } else {
+      post = await updatePost(existingPost.slug);
+    }
+  } catch (error) {
+    if (isVersionConflict(error)) {
+      return sendVersionConflict(res, id, existingPost);
+    }
+    if (isSlugConflict(error)) {
+      return res.status(400).json({
+        error: 'A post with this slug already exists',
+      });
+    }
+    throw error;
+  }
+
+  await recordSlugChange(post.id, existingPost.slug, post.slug);
 
   invalidateCache.invalidateListCaches();
+  invalidateCache.invalidatePostCache(existingPost.slug);
   invalidateCache.invalidatePostCache(post.slug);
+  invalidateCache.invalidateUserCaches(existingPost.authorId);
   if (req.user) {
     invalidateCache.invalidateUserCaches(req.user.id);
   }
@@ -1057,14 +1344,15 @@ router.put('/:id', validatePost, authenticateToken, handleValidationErrors, asyn
     tags: post.tags.map((postTag: any) => postTag.tag),
   };
 
-  return res.json({
+  return res.set('ETag', getPostETag(post)).json({
     message: 'Post updated successfully',
     post: postWithTags,
   });
 }));
 
-// Delete post
-router.delete('/:id', authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
+// Partially update a post: only the fields sent change, null clears optional fields and
+// tags are added or removed individually
+router.patch('/:id', validatePostPatch, authenticateWithScope('posts:write'), handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
   if (!req.user) {
     return res.status(401).json({
       error: 'Authentication required',
@@ -1072,10 +1360,20 @@ router.delete('/:id', authenticateToken, asyncHandler(async (req: AuthRequest, r
   }
 
   const { id } = req.params;
+  const { title, content, excerpt, slug: customSlug, published, featured, publishAt, categoryId, metaTitle, metaDescription, ogImage } = req.body;
+  const addTags: string[] = req.body.addTags || [];
+  const removeTags: string[] = req.body.removeTags || [];
+
+  const fields = [title, content, excerpt, customSlug, published, featured, publishAt, categoryId, metaTitle, metaDescription, ogImage];
+  if (fields.every((value) => value === undefined) && addTags.length === 0 && removeTags.length === 0) {
+    return res.status(400).json({
+      error: 'No changes provided',
+    });
+  }
 
-  // Check if post exists and user owns it
   const existingPost = await prisma.post.findUnique({
-    where: { id },
+    where: { id, deletedAt: null },
+    include: { tags: { select: { tagId: true } } },
   });
 
   if (!existingPost) {
@@ -1084,83 +1382,747 @@ router.delete('/:id', authenticateToken, asyncHandler(async (req: AuthRequest, r
     });
   }
 
-  if (existingPost.authorId !== req.user.id) {
+  if (!canEditPost(req.user, existingPost)) {
     return res.status(403).json({
-      error: 'Not authorized to delete this post',
+      error: 'Not authorized to update this post',
     });
   }
 
-  await prisma.post.delete({
-    where: { id },
-  });
-
-  invalidateCache.invalidateListCaches();
-  invalidateCache.invalidatePostCache(existingPost.slug);
-  if (req.user) {
-    invalidateCache.invalidateUserCaches(req.user.id);
+  if (featured !== undefined && featured !== existingPost.featured && !hasPermission(req.user.role, 'posts:feature')) {
+    return res.status(403).json({
+      error: 'Not authorized to feature posts',
+    });
   }
 
-  return res.json({
-    message: 'Post deleted successfully',
-  });
-}));
+  const ifMatch = req.get('If-Match');
+  const precondition = checkIfMatch(ifMatch, existingPost);
+  if (precondition) {
+    return sendPreconditionError(res, precondition, existingPost);
+  }
 
-// Like a post
-router.post('/:id/like', authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
-  if (!req.user) {
-    return res.status(401).json({
-      error: 'Authentication required',
+  if (publishAt && (published === true || (published === undefined && existingPost.published))) {
+    return res.status(400).json({
+      error: 'A post cannot be both published and scheduled',
     });
   }
 
-  const { id } = req.params;
-
-  // Check if post exists
-  const post = await prisma.post.findUnique({
-    where: { id },
-  });
+  // Scheduling implies unpublished; an explicit publish or unpublish clears any schedule
+  let scheduleData: { published?: boolean; publishAt?: Date | null } = {};
+  if (publishAt) {
+    scheduleData = { published: false, publishAt: new Date(publishAt) };
+  } else if (publishAt === null || published !== undefined) {
+    scheduleData = { publishAt: null };
+  }
 
-  if (!post) {
-    return res.status(404).json({
-      error: 'Post not found',
+  if (addTags.some((tagId) => removeTags.includes(tagId))) {
+    return res.status(400).json({
+      error: 'A tag cannot be both added and removed',
     });
   }
 
-  // Check if user already liked this post
-  const existingLike = await prisma.postLike.findUnique({
-    where: {
-      userId_postId: {
-        userId: req.user.id,
-        postId: id,
-      },
-    },
-  });
+  const currentTagIds = existingPost.tags.map((postTag) => postTag.tagId);
+  const tagsToAdd = [...new Set(addTags)].filter((tagId) => !currentTagIds.includes(tagId));
+  const tagsToRemove = [...new Set(removeTags)].filter((tagId) => currentTagIds.includes(tagId));
 
-  if (existingLike) {
+  if (currentTagIds.length + tagsToAdd.length - tagsToRemove.length > 5) {
     return res.status(400).json({
-      error: 'You have already liked this post',
+      error: 'Maximum 5 tags allowed',
     });
   }
 
-  // Create the like
-  await prisma.postLike.create({
+  if (customSlug && !(await isSlugAvailable(customSlug, id))) {
+    return res.status(400).json({
+      error: 'A post with this slug already exists',
+    });
+  }
+
+  // Stats only need recomputing when the content or excerpt changes
+  const contentStats = content !== undefined || excerpt !== undefined
+    ? buildContentStatsData(content ?? existingPost.content, excerpt, existingPost)
+    : {};
+
+  const editorId = req.user.id;
+  const updatePost = (slug: string) => writeWithRevision(editorId, (tx) => tx.post.update({
+    where: { id, ...versionGuard(ifMatch, existingPost) },
     data: {
-      userId: req.user.id,
-      postId: id,
+      title,
+      content,
+      ...contentStats,
+      slug,
+      published,
+      ...scheduleData,
+      featured,
+      categoryId,
+      metaTitle,
+      metaDescription,
+      ogImage,
+      version: { increment: 1 },
+      tags: tagsToAdd.length > 0 || tagsToRemove.length > 0 ? {
+        deleteMany: { tagId: { in: tagsToRemove } },
+        create: tagsToAdd.map((tagId) => ({ tagId })),
+      } : undefined,
     },
-  });
+    include: postListInclude,
+  }), existingPost);
+
+  // An explicit slug wins; otherwise a title change generates a new, unique one
+  let post;
+  try {
+    if (customSlug) {
+      post = await updatePost(customSlug);
+    } else if (title !== undefined && title !== existingPost.title) {
+      post = await writeWithUniqueSlug(generateSlug(title), updatePost, id);
+    } else {
+      post = await updatePost(existingPost.slug);
+    }
+  } catch (error) {
+    if (isVersionConflict(error)) {
+      return sendVersionConflict(res, id, existingPost);
+    }
+    if (isSlugConflict(error)) {
+      return res.status(400).json({
+        error: 'A post with this slug already exists',
+      });
+    }
+    throw error;
+  }
 
-  // Get updated like count
-  const likeCount = await prisma.postLike.count({
-    where: { postId: id },
-  });
+  await recordSlugChange(post.id, existingPost.slug, post.slug);
 
   invalidateCache.invalidateListCaches();
+  invalidateCache.invalidatePostCache(existingPost.slug);
   invalidateCache.invalidatePostCache(post.slug);
+  invalidateCache.invalidateUserCaches(existingPost.authorId);
+  invalidateCache.invalidateUserCaches(req.user.id);
 
-  return res.status(201).json({
-    message: 'Post liked successfully',
-    likeCount,
+  return res.set('ETag', getPostETag(post)).json({
+    message: 'Post updated successfully',
+    post: {
+      ...post,
+      tags: post.tags.map((postTag) => postTag.tag),
+    },
+  });
+}));
+
+// Delete post
+router.delete('/:id', authenticateWithScope('posts:write'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const { id } = req.params;
+
+  // Check if post exists and user owns it
+  const existingPost = await prisma.post.findUnique({
+    where: { id, deletedAt: null },
+  });
+
+  if (!existingPost) {
+    return res.status(404).json({
+      error: 'Post not found',
+    });
+  }
+
+  if (existingPost.authorId !== req.user.id && !hasPermission(req.user.role, 'posts:delete-any')) {
+    return res.status(403).json({
+      error: 'Not authorized to delete this post',
+    });
+  }
+
+  const ifMatch = req.get('If-Match');
+  const precondition = checkIfMatch(ifMatch, existingPost);
+  if (precondition) {
+    return sendPreconditionError(res, precondition, existingPost);
+  }
+
+  // Trashed posts keep their likes, saves, comments and tags until they are purged
+  let post;
+  try {
+    post = await prisma.post.update({
+      where: { id, ...versionGuard(ifMatch, existingPost) },
+      data: { deletedAt: new Date(), version: { increment: 1 } },
+      select: {
+        id: true,
+        slug: true,
+        deletedAt: true,
+      },
+    });
+  } catch (error) {
+    if (isVersionConflict(error)) {
+      return sendVersionConflict(res, id, existingPost);
+    }
+    throw error;
+  }
+
+  invalidateCache.invalidateListCaches();
+  invalidateCache.invalidatePostCache(existingPost.slug);
+  invalidateCache.invalidateUserCaches(existingPost.authorId);
+  if (req.user) {
+    invalidateCache.invalidateUserCaches(req.user.id);
+  }
+
+  return res.json({
+    message: 'Post moved to trash',
+    post: {
+      ...post,
+      purgeAt: getPurgeDate(post.deletedAt!),
+    },
+  });
+}));
+
+// Restore a post from the trash
+router.post('/:id/restore', authenticateWithScope('posts:write'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const { id } = req.params;
+
+  const existingPost = await prisma.post.findUnique({
+    where: { id, deletedAt: { not: null } },
+  });
+
+  if (!existingPost) {
+    return res.status(404).json({
+      error: 'Post not found in trash',
+    });
+  }
+
+  if (existingPost.authorId !== req.user.id && !hasPermission(req.user.role, 'posts:delete-any')) {
+    return res.status(403).json({
+      error: 'Not authorized to restore this post',
+    });
+  }
+
+  const ifMatch = req.get('If-Match');
+  const precondition = checkIfMatch(ifMatch, existingPost);
+  if (precondition) {
+    return sendPreconditionError(res, precondition, existingPost);
+  }
+
+  let post;
+  try {
+    post = await prisma.post.update({
+      where: { id, ...versionGuard(ifMatch, existingPost) },
+      data: { deletedAt: null, version: { increment: 1 } },
+      include: postListInclude,
+    });
+  } catch (error) {
+    if (isVersionConflict(error)) {
+      return sendVersionConflict(res, id, existingPost);
+    }
+    throw error;
+  }
+
+  invalidateCache.invalidateListCaches();
+  invalidateCache.invalidatePostCache(post.slug);
+  invalidateCache.invalidateUserCaches(post.authorId);
+
+  return res.set('ETag', getPostETag(post)).json({
+    message: 'Post restored successfully',
+    post: {
+      ...post,
+      tags: post.tags.map((postTag) => postTag.tag),
+    },
+  });
+}));
+
+// List a post's revisions, newest first (content is omitted; fetch a single revision for it)
+router.get('/:id/revisions', authenticateWithScope('posts:read'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const { id } = req.params;
+
+  const post = await prisma.post.findUnique({
+    where: { id, deletedAt: null },
+  });
+
+  if (!post) {
+    return res.status(404).json({
+      error: 'Post not found',
+    });
+  }
+
+  if (!canEditPost(req.user, post)) {
+    return res.status(403).json({
+      error: 'Not authorized to view revisions of this post',
+    });
+  }
+
+  const revisions = await prisma.postRevision.findMany({
+    where: { postId: id },
+    select: {
+      id: true,
+      number: true,
+      title: true,
+      metaTitle: true,
+      metaDescription: true,
+      ogImage: true,
+      categoryId: true,
+      tagIds: true,
+      createdAt: true,
+      editor: revisionEditorSelect,
+    },
+    orderBy: { number: 'desc' },
+  });
+
+  return res.json({ revisions });
+}));
+
+// Line-level diff between two revisions of a post
+router.get('/:id/revisions/diff', authenticateWithScope('posts:read'), validateRevisionDiff, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const { id } = req.params;
+  const from = req.query.from as string;
+  const to = req.query.to as string;
+
+  const post = await prisma.post.findUnique({
+    where: { id, deletedAt: null },
+  });
+
+  if (!post) {
+    return res.status(404).json({
+      error: 'Post not found',
+    });
+  }
+
+  if (!canEditPost(req.user, post)) {
+    return res.status(403).json({
+      error: 'Not authorized to view revisions of this post',
+    });
+  }
+
+  const [fromRevision, toRevision] = await Promise.all([
+    prisma.postRevision.findFirst({ where: { id: from, postId: id } }),
+    prisma.postRevision.findFirst({ where: { id: to, postId: id } }),
+  ]);
+
+  if (!fromRevision || !toRevision) {
+    return res.status(404).json({
+      error: 'Revision not found',
+    });
+  }
+
+  const fields: Record<string, { from: unknown; to: unknown }> = {};
+  for (const field of ['title', 'metaTitle', 'metaDescription', 'ogImage', 'categoryId'] as const) {
+    if (fromRevision[field] !== toRevision[field]) {
+      fields[field] = { from: fromRevision[field], to: toRevision[field] };
+    }
+  }
+  const fromTags = [...fromRevision.tagIds].sort();
+  const toTags = [...toRevision.tagIds].sort();
+  if (fromTags.join(',') !== toTags.join(',')) {
+    fields.tagIds = { from: fromTags, to: toTags };
+  }
+
+  const content = diffLines(fromRevision.content, toRevision.content);
+
+  return res.json({
+    from: { id: fromRevision.id, number: fromRevision.number, createdAt: fromRevision.createdAt },
+    to: { id: toRevision.id, number: toRevision.number, createdAt: toRevision.createdAt },
+    fields,
+    content,
+    stats: {
+      added: content.filter((line) => line.type === 'added').length,
+      removed: content.filter((line) => line.type === 'removed').length,
+    },
+  });
+}));
+
+// Get a single revision including its content
+router.get('/:id/revisions/:revId', authenticateWithScope('posts:read'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const { id, revId } = req.params;
+
+  const post = await prisma.post.findUnique({
+    where: { id, deletedAt: null },
+  });
+
+  if (!post) {
+    return res.status(404).json({
+      error: 'Post not found',
+    });
+  }
+
+  if (!canEditPost(req.user, post)) {
+    return res.status(403).json({
+      error: 'Not authorized to view revisions of this post',
+    });
+  }
+
+  const revision = await prisma.postRevision.findFirst({
+    where: { id: revId, postId: id },
+    include: { editor: revisionEditorSelect },
+  });
+
+  if (!revision) {
+    return res.status(404).json({
+      error: 'Revision not found',
+    });
+  }
+
+  return res.json({ revision });
+}));
+
+// Restore a post to an earlier revision; the restore itself is recorded as a new revision
+router.post('/:id/revisions/:revId/restore', authenticateWithScope('posts:write'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const { id, revId } = req.params;
+
+  const existingPost = await prisma.post.findUnique({
+    where: { id, deletedAt: null },
+  });
+
+  if (!existingPost) {
+    return res.status(404).json({
+      error: 'Post not found',
+    });
+  }
+
+  if (!canEditPost(req.user, existingPost)) {
+    return res.status(403).json({
+      error: 'Not authorized to update this post',
+    });
+  }
+
+  const ifMatch = req.get('If-Match');
+  const precondition = checkIfMatch(ifMatch, existingPost);
+  if (precondition) {
+    return sendPreconditionError(res, precondition, existingPost);
+  }
+
+  const revision = await prisma.postRevision.findFirst({
+    where: { id: revId, postId: id },
+  });
+
+  if (!revision) {
+    return res.status(404).json({
+      error: 'Revision not found',
+    });
+  }
+
+  // Categories and tags deleted since the revision was recorded are dropped
+  const [category, existingTags] = await Promise.all([
+    revision.categoryId ? prisma.category.findUnique({ where: { id: revision.categoryId } }) : null,
+    prisma.tag.findMany({ where: { id: { in: revision.tagIds } }, select: { id: true } }),
+  ]);
+
+  const editorId = req.user.id;
+  const restorePost = (slug: string) => writeWithRevision(editorId, (tx) => tx.post.update({
+    where: { id, ...versionGuard(ifMatch, existingPost) },
+    data: {
+      title: revision.title,
+      content: revision.content,
+      ...buildContentStatsData(revision.content, undefined, existingPost),
+      slug,
+      version: { increment: 1 },
+      metaTitle: revision.metaTitle,
+      metaDescription: revision.metaDescription,
+      ogImage: revision.ogImage,
+      categoryId: category ? category.id : null,
+      tags: {
+        deleteMany: {},
+        create: existingTags.map((tag) => ({ tagId: tag.id })),
+      },
+    },
+    include: postListInclude,
+  }));
+
+  let post;
+  try {
+    post = revision.title !== existingPost.title
+      ? await writeWithUniqueSlug(generateSlug(revision.title), restorePost, id)
+      : await restorePost(existingPost.slug);
+  } catch (error) {
+    if (isVersionConflict(error)) {
+      return sendVersionConflict(res, id, existingPost);
+    }
+    throw error;
+  }
+
+  await recordSlugChange(post.id, existingPost.slug, post.slug);
+
+  invalidateCache.invalidateListCaches();
+  invalidateCache.invalidatePostCache(existingPost.slug);
+  invalidateCache.invalidatePostCache(post.slug);
+  invalidateCache.invalidateUserCaches(existingPost.authorId);
+
+  return res.json({
+    message: `Post restored to revision ${revision.number}`,
+    post: {
+      ...post,
+      tags: post.tags.map((postTag) => postTag.tag),
+    },
+  });
+}));
+
+// Schedule or reschedule an unpublished post
+router.put('/:id/schedule', authenticateWithScope('posts:write'), validateSchedule, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const { id } = req.params;
+  const { publishAt } = req.body;
+
+  const existingPost = await prisma.post.findUnique({
+    where: { id, deletedAt: null },
+  });
+
+  if (!existingPost) {
+    return res.status(404).json({
+      error: 'Post not found',
+    });
+  }
+
+  if (existingPost.authorId !== req.user.id && !hasPermission(req.user.role, 'posts:edit-any')) {
+    return res.status(403).json({
+      error: 'Not authorized to update this post',
+    });
+  }
+
+  const ifMatch = req.get('If-Match');
+  const precondition = checkIfMatch(ifMatch, existingPost);
+  if (precondition) {
+    return sendPreconditionError(res, precondition, existingPost);
+  }
+
+  if (getPostStatus(existingPost) === 'published') {
+    return res.status(400).json({
+      error: 'Post is already published',
+    });
+  }
+
+  let post;
+  try {
+    post = await prisma.post.update({
+      where: { id, ...versionGuard(ifMatch, existingPost) },
+      data: { publishAt: new Date(publishAt), version: { increment: 1 } },
+      select: {
+        id: true,
+        slug: true,
+        published: true,
+        publishAt: true,
+        version: true,
+      },
+    });
+  } catch (error) {
+    if (isVersionConflict(error)) {
+      return sendVersionConflict(res, id, existingPost);
+    }
+    throw error;
+  }
+
+  invalidateCache.invalidateUserCaches(existingPost.authorId);
+
+  return res.set('ETag', getPostETag(post)).json({
+    message: 'Post scheduled successfully',
+    post: {
+      ...post,
+      status: getPostStatus(post),
+    },
+  });
+}));
+
+// Cancel a scheduled post; it goes back to being a draft
+router.delete('/:id/schedule', authenticateWithScope('posts:write'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const { id } = req.params;
+
+  const existingPost = await prisma.post.findUnique({
+    where: { id, deletedAt: null },
+  });
+
+  if (!existingPost) {
+    return res.status(404).json({
+      error: 'Post not found',
+    });
+  }
+
+  if (existingPost.authorId !== req.user.id && !hasPermission(req.user.role, 'posts:edit-any')) {
+    return res.status(403).json({
+      error: 'Not authorized to update this post',
+    });
+  }
+
+  const ifMatch = req.get('If-Match');
+  const precondition = checkIfMatch(ifMatch, existingPost);
+  if (precondition) {
+    return sendPreconditionError(res, precondition, existingPost);
+  }
+
+  if (getPostStatus(existingPost) !== 'scheduled') {
+    return res.status(400).json({
+      error: 'Post is not scheduled',
+    });
+  }
+
+  let post;
+  try {
+    post = await prisma.post.update({
+      where: { id, ...versionGuard(ifMatch, existingPost) },
+      data: { publishAt: null, version: { increment: 1 } },
+      select: {
+        id: true,
+        slug: true,
+        published: true,
+        publishAt: true,
+        version: true,
+      },
+    });
+  } catch (error) {
+    if (isVersionConflict(error)) {
+      return sendVersionConflict(res, id, existingPost);
+    }
+    throw error;
+  }
+
+  invalidateCache.invalidateUserCaches(existingPost.authorId);
+
+  return res.set('ETag', getPostETag(post)).json({
+    message: 'Post schedule cancelled',
+    post: {
+      ...post,
+      status: getPostStatus(post),
+    },
+  });
+}));
+
+// Feature or unfeature a post
+router.put('/:id/featured', authenticateToken, requirePermission('posts:feature'), validateFeatured, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+  const { featured } = req.body;
+
+  const existingPost = await prisma.post.findUnique({
+    where: { id, deletedAt: null },
+  });
+
+  if (!existingPost) {
+    return res.status(404).json({
+      error: 'Post not found',
+    });
+  }
+
+  const ifMatch = req.get('If-Match');
+  const precondition = checkIfMatch(ifMatch, existingPost);
+  if (precondition) {
+    return sendPreconditionError(res, precondition, existingPost);
+  }
+
+  let post;
+  try {
+    post = await prisma.post.update({
+      where: { id, ...versionGuard(ifMatch, existingPost) },
+      data: { featured, version: { increment: 1 } },
+      select: {
+        id: true,
+        slug: true,
+        featured: true,
+        version: true,
+      },
+    });
+  } catch (error) {
+    if (isVersionConflict(error)) {
+      return sendVersionConflict(res, id, existingPost);
+    }
+    throw error;
+  }
+
+  invalidateCache.invalidateListCaches();
+  invalidateCache.invalidatePostCache(post.slug);
+
+  return res.set('ETag', getPostETag(post)).json({
+    message: featured ? 'Post featured successfully' : 'Post unfeatured successfully',
+    post,
+  });
+}));
+
+// Like a post
+router.post('/:id/like', authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const { id } = req.params;
+
+  // Check if post exists
+  const post = await prisma.post.findUnique({
+    where: { id, deletedAt: null },
+  });
+
+  if (!post) {
+    return res.status(404).json({
+      error: 'Post not found',
+    });
+  }
+
+  // Check if user already liked this post
+  const existingLike = await prisma.postLike.findUnique({
+    where: {
+      userId_postId: {
+        userId: req.user.id,
+        postId: id,
+      },
+    },
+  });
+
+  if (existingLike) {
+    return res.status(400).json({
+      error: 'You have already liked this post',
+    });
+  }
+
+  // Create the like
+  await prisma.postLike.create({
+    data: {
+      userId: req.user.id,
+      postId: id,
+    },
+  });
+
+  // Get updated like count
+  const likeCount = await prisma.postLike.count({
+    where: { postId: id },
+  });
+
+  invalidateCache.invalidateListCaches();
+  invalidateCache.invalidatePostCache(post.slug);
+
+  return res.status(201).json({
+    message: 'Post liked successfully',
+    likeCount,
   });
 }));
 
@@ -1176,7 +2138,7 @@ router.delete('/:id/like', authenticateToken, asyncHandler(async (req: AuthReque
 
   // Check if post exists
   const post = await prisma.post.findUnique({
-    where: { id },
+    where: { id, deletedAt: null },
   });
 
   if (!post) {
@@ -1237,7 +2199,7 @@ router.post('/:id/save', authenticateToken, asyncHandler(async (req: AuthRequest
 
   // Check if post exists
   const post = await prisma.post.findUnique({
-    where: { id },
+    where: { id, deletedAt: null },
   });
 
   if (!post) {
@@ -1272,6 +2234,7 @@ router.post('/:id/save', authenticateToken, asyncHandler(async (req: AuthRequest
 
   invalidateCache.invalidateListCaches();
   invalidateCache.invalidatePostCache(post.slug);
+  invalidateCache.invalidateSavedCache(req.user.id);
 
   return res.status(201).json({
     message: 'Post saved successfully',
@@ -1290,7 +2253,7 @@ router.delete('/:id/save', authenticateToken, asyncHandler(async (req: AuthReque
 
   // Check if post exists
   const post = await prisma.post.findUnique({
-    where: { id },
+    where: { id, deletedAt: null },
   });
 
   if (!post) {
@@ -1327,6 +2290,7 @@ router.delete('/:id/save', authenticateToken, asyncHandler(async (req: AuthReque
 
   invalidateCache.invalidateListCaches();
   invalidateCache.invalidatePostCache(post.slug);
+  invalidateCache.invalidateSavedCache(req.user.id);
 
   return res.json({
     message: 'Post unsaved successfully',
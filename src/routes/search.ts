@@ -0,0 +1,48 @@
+import { Router, Request, Response } from 'express';
+import { asyncHandler, handleValidationErrors } from '../middleware/validation';
+import { validateSearch } from '../middleware/validators';
+import { buildSearchQuery, searchPosts } from '../utils/search';
+import { shouldIncludeContent } from '../utils/posts';
+
+const router = Router();
+
+// Full-text search over published posts, ranked by title, tag and content matches
+router.get('/', validateSearch, handleValidationErrors, asyncHandler(async (req: Request, res: Response) => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 10;
+  const q = req.query.q as string;
+
+  const tsQuery = buildSearchQuery(q);
+  if (!tsQuery) {
+    return res.status(400).json({
+      error: 'Search query must contain at least one word',
+    });
+  }
+
+  const { results, total } = await searchPosts(
+    tsQuery,
+    {
+      authorId: req.query.authorId as string | undefined,
+      categoryId: req.query.categoryId as string | undefined,
+      tag: req.query.tag as string | undefined,
+      from: req.query.from ? new Date(req.query.from as string) : undefined,
+      to: req.query.to ? new Date(req.query.to as string) : undefined,
+    },
+    page,
+    limit,
+    shouldIncludeContent(req.query)
+  );
+
+  return res.json({
+    query: q,
+    posts: results,
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit),
+    },
+  });
+}));
+
+export default router;
@@ -0,0 +1,90 @@
+import { Router, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, revokeSession, revokeAllSessions, AuthRequest } from '../utils/auth';
+import { asyncHandler } from '../middleware/validation';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// List sessions that are still signed in
+router.get('/', authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  // A session whose refresh tokens have all expired can no longer be resumed
+  const sessions = await prisma.session.findMany({
+    where: {
+      userId: req.user.id,
+      revokedAt: null,
+      refreshTokens: {
+        some: {
+          usedAt: null,
+          expiresAt: { gt: new Date() },
+        },
+      },
+    },
+    select: {
+      id: true,
+      userAgent: true,
+      ipAddress: true,
+      lastSeenAt: true,
+      createdAt: true,
+    },
+    orderBy: { lastSeenAt: 'desc' },
+  });
+
+  return res.json({
+    sessions: sessions.map((session) => ({
+      ...session,
+      current: session.id === req.sessionId,
+    })),
+  });
+}));
+
+// Sign out every session except the one making the request
+router.post('/revoke-others', authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const revokedCount = await revokeAllSessions(req.user.id, req.sessionId);
+
+  return res.json({
+    message: 'Signed out of all other sessions',
+    revokedCount,
+  });
+}));
+
+// Sign out a specific session
+router.delete('/:id', authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const { id } = req.params;
+
+  const session = await prisma.session.findUnique({
+    where: { id },
+  });
+
+  if (!session || session.userId !== req.user.id || session.revokedAt) {
+    return res.status(404).json({
+      error: 'Session not found',
+    });
+  }
+
+  await revokeSession(id);
+
+  return res.json({
+    message: 'Session revoked successfully',
+  });
+}));
+
+export default router;
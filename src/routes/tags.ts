@@ -1,6 +1,9 @@
 import { Router, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
-import { asyncHandler } from '../middleware/validation';
+import { asyncHandler, handleValidationErrors } from '../middleware/validation';
+import { validateTag } from '../middleware/validators';
+import { authenticateToken, requirePermission, AuthRequest } from '../utils/auth';
+import { invalidateCache } from '../middleware/cache';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -33,5 +36,170 @@ router.get('/', asyncHandler(async (req: any, res: Response) => {
   });
 }));
 
-export default router;
+// Create a tag
+router.post('/', authenticateToken, requirePermission('tags:manage'), validateTag, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { name } = req.body;
+
+  const existingTag = await prisma.tag.findUnique({
+    where: { name },
+  });
+
+  if (existingTag) {
+    return res.status(400).json({
+      error: 'Tag already exists',
+    });
+  }
+
+  const tag = await prisma.tag.create({
+    data: { name },
+    select: {
+      id: true,
+      name: true,
+    },
+  });
+
+  return res.status(201).json({
+    message: 'Tag created successfully',
+    tag,
+  });
+}));
+
+// Rename a tag
+router.put('/:id', authenticateToken, requirePermission('tags:manage'), validateTag, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+  const { name } = req.body;
+
+  const existingTag = await prisma.tag.findUnique({
+    where: { id },
+  });
+
+  if (!existingTag) {
+    return res.status(404).json({
+      error: 'Tag not found',
+    });
+  }
+
+  const conflictingTag = await prisma.tag.findUnique({
+    where: { name },
+  });
+
+  if (conflictingTag && conflictingTag.id !== id) {
+    return res.status(400).json({
+      error: 'Tag already exists',
+    });
+  }
+
+  const tag = await prisma.tag.update({
+    where: { id },
+    data: { name },
+    select: {
+      id: true,
+      name: true,
+    },
+  });
+
+  invalidateCache.invalidateAll();
+
+  return res.json({
+    message: 'Tag updated successfully',
+    tag,
+  });
+}));
+
+// Delete a tag and remove it from all posts
+router.delete('/:id', authenticateToken, requirePermission('tags:manage'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+
+  const existingTag = await prisma.tag.findUnique({
+    where: { id },
+  });
+
+  if (!existingTag) {
+    return res.status(404).json({
+      error: 'Tag not found',
+    });
+  }
+
+  await prisma.tag.delete({
+    where: { id },
+  });
+
+  invalidateCache.invalidateAll();
+
+  return res.json({
+    message: 'Tag deleted successfully',
+  });
+}));
+
+// Follow a tag so its posts show up in the feed
+router.post('/:id/follow', authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const { id } = req.params;
+  const userId = req.user.id;
+
+  const tag = await prisma.tag.findUnique({
+    where: { id },
+  });
+
+  if (!tag) {
+    return res.status(404).json({
+      error: 'Tag not found',
+    });
+  }
+
+  const existingFollow = await prisma.tagFollow.findUnique({
+    where: { userId_tagId: { userId, tagId: id } },
+  });
+
+  if (existingFollow) {
+    return res.status(400).json({
+      error: 'Already following this tag',
+    });
+  }
 
+  await prisma.tagFollow.create({
+    data: { userId, tagId: id },
+  });
+
+  return res.status(201).json({
+    message: 'Successfully followed tag',
+    tagId: id,
+  });
+}));
+
+router.delete('/:id/follow', authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const { id } = req.params;
+  const userId = req.user.id;
+
+  const existingFollow = await prisma.tagFollow.findUnique({
+    where: { userId_tagId: { userId, tagId: id } },
+  });
+
+  if (!existingFollow) {
+    return res.status(400).json({
+      error: 'Not following this tag',
+    });
+  }
+
+  await prisma.tagFollow.delete({
+    where: { id: existingFollow.id },
+  });
+
+  return res.json({
+    message: 'Successfully unfollowed tag',
+    tagId: id,
+  });
+}));
+
+export default router;
@@ -0,0 +1,100 @@
+import { Router, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { authenticateToken, generateOpaqueToken, hashToken, AuthRequest } from '../utils/auth';
+import { validatePersonalAccessToken } from '../middleware/validators';
+import { handleValidationErrors, asyncHandler } from '../middleware/validation';
+import { PERSONAL_ACCESS_TOKEN_PREFIX } from '../constants/auth';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const tokenSelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+};
+
+// Create a personal access token; the secret is only returned in this response
+router.post('/', authenticateToken, validatePersonalAccessToken, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const { name, scopes, expiresAt } = req.body;
+  const secret = `${PERSONAL_ACCESS_TOKEN_PREFIX}${generateOpaqueToken()}`;
+
+  const token = await prisma.personalAccessToken.create({
+    data: {
+      userId: req.user.id,
+      name,
+      tokenHash: hashToken(secret),
+      prefix: secret.slice(0, PERSONAL_ACCESS_TOKEN_PREFIX.length + 6),
+      scopes: Array.from(new Set<string>(scopes)),
+      expiresAt: expiresAt ? new Date(expiresAt) : null,
+    },
+    select: tokenSelect,
+  });
+
+  return res.status(201).json({
+    message: 'Personal access token created. Copy the secret now, it will not be shown again',
+    token,
+    secret,
+  });
+}));
+
+// List the user's active personal access tokens
+router.get('/', authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const tokens = await prisma.personalAccessToken.findMany({
+    where: { userId: req.user.id, revokedAt: null },
+    select: tokenSelect,
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return res.json({
+    tokens,
+  });
+}));
+
+// Revoke a personal access token
+router.delete('/:id', authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const { id } = req.params;
+
+  const token = await prisma.personalAccessToken.findUnique({
+    where: { id },
+  });
+
+  if (!token || token.userId !== req.user.id || token.revokedAt) {
+    return res.status(404).json({
+      error: 'Token not found',
+    });
+  }
+
+  await prisma.personalAccessToken.update({
+    where: { id },
+    data: { revokedAt: new Date() },
+  });
+
+  return res.json({
+    message: 'Token revoked successfully',
+  });
+}));
+
+export default router;
@@ -1,12 +1,114 @@
 import { Router, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
-import { authenticateToken } from '../utils/auth';
-import { asyncHandler } from '../middleware/validation';
+import { authenticateToken, requireRole } from '../utils/auth';
+import { asyncHandler, handleValidationErrors } from '../middleware/validation';
+import { validateRole } from '../middleware/validators';
 import { AuthRequest } from '../utils/auth';
+import { postListInclude, formatPostList, publicPostWhere, shouldIncludeContent } from '../utils/posts';
+import { getPagination, paginationArgs, paginationWhere, paginationOrderBy, paginationMeta, takePage, SortKey } from '../utils/pagination';
 
 const router = Router();
 const prisma = new PrismaClient();
 
+// Posts and follows are listed newest first, with id breaking ties
+const newestFirst: SortKey[] = [
+  { field: 'createdAt', direction: 'desc', type: 'date' },
+  { field: 'id', direction: 'desc', type: 'string' },
+];
+
+// Fields that are safe to show to anyone; email is deliberately left out
+const publicProfileSelect = {
+  id: true,
+  username: true,
+  displayName: true,
+  bio: true,
+  avatarUrl: true,
+  website: true,
+  location: true,
+  socialLinks: true,
+  createdAt: true,
+};
+
+// Public profile by username
+router.get('/:username', asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { username } = req.params;
+
+  const user = await prisma.user.findFirst({
+    where: { username, deletedAt: null },
+    select: publicProfileSelect,
+  });
+
+  if (!user) {
+    return res.status(404).json({
+      error: 'User not found',
+    });
+  }
+
+  const [followerCount, followingCount, postCount] = await Promise.all([
+    prisma.follow.count({
+      where: { followingId: user.id },
+    }),
+    prisma.follow.count({
+      where: { followerId: user.id },
+    }),
+    prisma.post.count({
+      where: { authorId: user.id, ...publicPostWhere() },
+    }),
+  ]);
+
+  return res.json({
+    user: {
+      ...user,
+      followerCount,
+      followingCount,
+      postCount,
+    },
+  });
+}));
+
+// Published posts by a user, in the same shape as GET /api/posts
+router.get('/:username/posts', asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { username } = req.params;
+  const pagination = getPagination(req.query, newestFirst);
+
+  if (!pagination) {
+    return res.status(400).json({
+      error: 'Invalid cursor',
+    });
+  }
+
+  const user = await prisma.user.findFirst({
+    where: { username, deletedAt: null },
+    select: { id: true },
+  });
+
+  if (!user) {
+    return res.status(404).json({
+      error: 'User not found',
+    });
+  }
+
+  const whereClause = { authorId: user.id, ...publicPostWhere() };
+
+  const [rows, total] = await Promise.all([
+    prisma.post.findMany({
+      where: { AND: [whereClause, paginationWhere(pagination)] },
+      include: postListInclude,
+      orderBy: paginationOrderBy(pagination),
+      ...paginationArgs(pagination),
+    }),
+    pagination.after ? undefined : prisma.post.count({
+      where: whereClause,
+    }),
+  ]);
+  const { items: posts, nextCursor } = takePage(rows, pagination);
+
+  return res.json({
+    posts: await formatPostList(posts, shouldIncludeContent(req.query)),
+    pagination: paginationMeta(pagination, nextCursor, total),
+  });
+}));
+
 router.post('/:userId/follow', authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
   if (!req.user) {
     return res.status(401).json({
@@ -97,15 +199,18 @@ router.delete('/:userId/follow', authenticateToken, asyncHandler(async (req: Aut
 
 router.get('/:userId/followers', asyncHandler(async (req: AuthRequest, res: Response) => {
   const { userId } = req.params;
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 20;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query, newestFirst, 20);
 
-  const [followers, total] = await Promise.all([
+  if (!pagination) {
+    return res.status(400).json({
+      error: 'Invalid cursor',
+    });
+  }
+
+  const [rows, total] = await Promise.all([
     prisma.follow.findMany({
-      where: { followingId: userId },
-      skip,
-      take: limit,
+      where: { AND: [{ followingId: userId }, paginationWhere(pagination)] },
+      ...paginationArgs(pagination),
       select: {
         id: true,
         createdAt: true,
@@ -117,14 +222,13 @@ router.get('/:userId/followers', asyncHandler(async (req: AuthRequest, res: Resp
           },
         },
       },
-      orderBy: {
-        createdAt: 'desc',
-      },
+      orderBy: paginationOrderBy(pagination),
     }),
-    prisma.follow.count({
+    pagination.after ? undefined : prisma.follow.count({
       where: { followingId: userId },
     }),
   ]);
+  const { items: followers, nextCursor } = takePage(rows, pagination);
 
   return res.json({
     followers: followers.map((f: any) => ({
@@ -132,23 +236,25 @@ router.get('/:userId/followers', asyncHandler(async (req: AuthRequest, res: Resp
       username: f.follower.username,
       createdAt: f.createdAt,
     })),
-    total,
-    page,
-    limit,
+    // Flat rather than under "pagination", as these lists have always been
+    ...paginationMeta(pagination, nextCursor, total),
   });
 }));
 
 router.get('/:userId/following', asyncHandler(async (req: AuthRequest, res: Response) => {
   const { userId } = req.params;
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 20;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query, newestFirst, 20);
+
+  if (!pagination) {
+    return res.status(400).json({
+      error: 'Invalid cursor',
+    });
+  }
 
-  const [following, total] = await Promise.all([
+  const [rows, total] = await Promise.all([
     prisma.follow.findMany({
-      where: { followerId: userId },
-      skip,
-      take: limit,
+      where: { AND: [{ followerId: userId }, paginationWhere(pagination)] },
+      ...paginationArgs(pagination),
       select: {
         id: true,
         createdAt: true,
@@ -160,14 +266,13 @@ router.get('/:userId/following', asyncHandler(async (req: AuthRequest, res: Resp
           },
         },
       },
-      orderBy: {
-        createdAt: 'desc',
-      },
+      orderBy: paginationOrderBy(pagination),
     }),
-    prisma.follow.count({
+    pagination.after ? undefined : prisma.follow.count({
       where: { followerId: userId },
     }),
   ]);
+  const { items: following, nextCursor } = takePage(rows, pagination);
 
   return res.json({
     following: following.map((f: any) => ({
@@ -175,9 +280,51 @@ router.get('/:userId/following', asyncHandler(async (req: AuthRequest, res: Resp
       username: f.following.username,
       createdAt: f.createdAt,
     })),
-    total,
-    page,
-    limit,
+    // Flat rather than under "pagination", as these lists have always been
+    ...paginationMeta(pagination, nextCursor, total),
+  });
+}));
+
+// Change a user's role (admins only)
+router.put('/:userId/role', authenticateToken, requireRole('admin'), validateRole, handleValidationErrors, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Authentication required',
+    });
+  }
+
+  const { userId } = req.params;
+  const { role } = req.body;
+
+  if (userId === req.user.id) {
+    return res.status(400).json({
+      error: 'Cannot change your own role',
+    });
+  }
+
+  const existingUser = await prisma.user.findUnique({
+    where: { id: userId },
+  });
+
+  if (!existingUser) {
+    return res.status(404).json({
+      error: 'User not found',
+    });
+  }
+
+  const user = await prisma.user.update({
+    where: { id: userId },
+    data: { role },
+    select: {
+      id: true,
+      username: true,
+      role: true,
+    },
+  });
+
+  return res.json({
+    message: 'Role updated successfully',
+    user,
   });
 }));
 
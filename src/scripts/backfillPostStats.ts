@@ -0,0 +1,52 @@
+import { PrismaClient } from '@prisma/client';
+import { buildContentStatsData } from '../utils/posts';
+
+// Recomputes word count, reading time and automatic excerpts for every post.
+// Author-supplied excerpts and updatedAt are kept. Safe to run more than once.
+//
+// Usage: npm run db:backfill:post-stats
+
+const prisma = new PrismaClient();
+const BATCH_SIZE = 100;
+
+const backfillPostStats = async (): Promise<number> => {
+  let updated = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const posts = await prisma.post.findMany({
+      select: { id: true, content: true, excerpt: true, hasCustomExcerpt: true, updatedAt: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+
+    if (posts.length === 0) {
+      return updated;
+    }
+
+    await prisma.$transaction(
+      posts.map((post) =>
+        prisma.post.update({
+          where: { id: post.id },
+          // Explicitly keeping updatedAt stops @updatedAt from marking every post as edited
+          data: { ...buildContentStatsData(post.content, undefined, post), updatedAt: post.updatedAt },
+        })
+      )
+    );
+
+    updated += posts.length;
+    cursor = posts[posts.length - 1].id;
+    console.log(`Backfilled ${updated} posts`);
+  }
+};
+
+backfillPostStats()
+  .then((count) => {
+    console.log(`✅ Done. Updated ${count} posts.`);
+  })
+  .catch((error) => {
+    console.error('❌ Backfill failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
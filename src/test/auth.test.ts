@@ -1,6 +1,7 @@
-import { prisma } from './setup';
+import { prisma, getSentMail } from './setup';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
+import { generateTotp } from '../utils/totp';
 
 describe('Authentication Routes', () => {
   const baseUrl = `http://localhost:${process.env.PORT}/api`;
@@ -210,7 +211,8 @@ describe('Authentication Routes', () => {
       });
 
       // Generate JWT token
-      const token = jwt.sign({ userId: user.id }, process.env.JWT_SECRET!, { expiresIn: '1d' });
+      const session = await prisma.session.create({ data: { userId: user.id } });
+      const token = jwt.sign({ userId: user.id, sid: session.id }, process.env.JWT_SECRET!, { expiresIn: '1d' });
 
       const response = await fetch(`${baseUrl}/auth/profile`, {
         method: 'GET',
@@ -252,4 +254,972 @@ describe('Authentication Routes', () => {
       expect(data).toHaveProperty('error', 'Invalid or expired token');
     });
   });
+
+  describe('POST /api/auth/refresh', () => {
+    const signupAndGetTokens = async () => {
+      const response = await fetch(`${baseUrl}/auth/signup`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          email: 'test@example.com',
+          username: 'testuser',
+          password: 'Password123',
+        }),
+      });
+
+      return (await response.json()) as any;
+    };
+
+    const refresh = (refreshToken: string) =>
+      fetch(`${baseUrl}/auth/refresh`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken }),
+      });
+
+    it('should issue a new token pair and rotate the refresh token', async () => {
+      const { refreshToken } = await signupAndGetTokens();
+      expect(refreshToken).toBeDefined();
+
+      const response = await refresh(refreshToken);
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data).toHaveProperty('token');
+      expect(data).toHaveProperty('refreshToken');
+      expect(data.refreshToken).not.toBe(refreshToken);
+
+      const profileResponse = await fetch(`${baseUrl}/auth/profile`, {
+        headers: {
+          'Authorization': `Bearer ${data.token}`,
+        },
+      });
+      expect(profileResponse.status).toBe(200);
+    });
+
+    it('should revoke the whole session when a refresh token is reused', async () => {
+      const { token, refreshToken } = await signupAndGetTokens();
+
+      const firstResponse = await refresh(refreshToken);
+      const firstData: any = await firstResponse.json();
+      expect(firstResponse.status).toBe(200);
+
+      const reuseResponse = await refresh(refreshToken);
+      const reuseData: any = await reuseResponse.json();
+      expect(reuseResponse.status).toBe(401);
+      expect(reuseData).toHaveProperty('error', 'Refresh token reuse detected');
+
+      // The rotated token belongs to the same family and must be dead too
+      const rotatedResponse = await refresh(firstData.refreshToken);
+      expect(rotatedResponse.status).toBe(401);
+
+      const profileResponse = await fetch(`${baseUrl}/auth/profile`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      const profileData: any = await profileResponse.json();
+      expect(profileResponse.status).toBe(401);
+      expect(profileData).toHaveProperty('error', 'Session has been revoked');
+    });
+
+    it('should reject an unknown refresh token', async () => {
+      const response = await refresh('not-a-real-token');
+      const data: any = await response.json();
+
+      expect(response.status).toBe(401);
+      expect(data).toHaveProperty('error', 'Invalid refresh token');
+    });
+
+    it('should reject an expired refresh token', async () => {
+      const { refreshToken } = await signupAndGetTokens();
+      await prisma.refreshToken.updateMany({
+        data: { expiresAt: new Date(Date.now() - 1000) },
+      });
+
+      const response = await refresh(refreshToken);
+      const data: any = await response.json();
+
+      expect(response.status).toBe(401);
+      expect(data).toHaveProperty('error', 'Refresh token expired');
+    });
+
+    it('should return validation error when refresh token is missing', async () => {
+      const response = await fetch(`${baseUrl}/auth/refresh`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/auth/logout', () => {
+    it('should revoke the session so its tokens stop working', async () => {
+      const signupResponse = await fetch(`${baseUrl}/auth/signup`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          email: 'test@example.com',
+          username: 'testuser',
+          password: 'Password123',
+        }),
+      });
+      const { token, refreshToken }: any = await signupResponse.json();
+
+      const response = await fetch(`${baseUrl}/auth/logout`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken }),
+      });
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data).toHaveProperty('message', 'Logged out successfully');
+
+      const profileResponse = await fetch(`${baseUrl}/auth/profile`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      expect(profileResponse.status).toBe(401);
+
+      const refreshResponse = await fetch(`${baseUrl}/auth/refresh`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken }),
+      });
+      expect(refreshResponse.status).toBe(401);
+    });
+
+    it('should reject access tokens without a session', async () => {
+      const user = await prisma.user.create({
+        data: {
+          email: 'test@example.com',
+          username: 'testuser',
+          password: await bcrypt.hash('Password123', 12),
+        },
+      });
+      const token = jwt.sign({ userId: user.id }, process.env.JWT_SECRET!, { expiresIn: '1d' });
+
+      const response = await fetch(`${baseUrl}/auth/profile`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('Password reset', () => {
+    const requestReset = (email: string) =>
+      fetch(`${baseUrl}/auth/forgot-password`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email }),
+      });
+
+    const resetPassword = (token: string, password: string) =>
+      fetch(`${baseUrl}/auth/reset-password`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token, password }),
+      });
+
+    const extractResetToken = async (email: string): Promise<string> => {
+      const messages = await getSentMail(email);
+      const match = messages[messages.length - 1].text.match(/Reset token: (\S+)/);
+      return match![1];
+    };
+
+    beforeEach(async () => {
+      await prisma.user.create({
+        data: {
+          email: 'test@example.com',
+          username: 'testuser',
+          password: await bcrypt.hash('Password123', 12),
+        },
+      });
+    });
+
+    it('should email a reset token and store only its hash', async () => {
+      const response = await requestReset('test@example.com');
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.message).toContain('password reset link has been sent');
+
+      const messages = await getSentMail('test@example.com');
+      expect(messages).toHaveLength(1);
+      expect(messages[0].subject).toBe('Reset your password');
+
+      const token = await extractResetToken('test@example.com');
+      const storedTokens = await prisma.passwordResetToken.findMany();
+      expect(storedTokens).toHaveLength(1);
+      expect(storedTokens[0].tokenHash).not.toBe(token);
+    });
+
+    it('should respond identically for unknown emails without sending mail', async () => {
+      const response = await requestReset('nobody@example.com');
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.message).toContain('password reset link has been sent');
+      expect(await getSentMail('nobody@example.com')).toHaveLength(0);
+    });
+
+    it('should reset the password and revoke existing sessions', async () => {
+      const loginResponse = await fetch(`${baseUrl}/auth/login`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email: 'test@example.com', password: 'Password123' }),
+      });
+      const { token: oldToken }: any = await loginResponse.json();
+
+      await requestReset('test@example.com');
+      const response = await resetPassword(await extractResetToken('test@example.com'), 'NewPassword456');
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data).toHaveProperty('message', 'Password reset successfully');
+
+      const profileResponse = await fetch(`${baseUrl}/auth/profile`, {
+        headers: {
+          'Authorization': `Bearer ${oldToken}`,
+        },
+      });
+      expect(profileResponse.status).toBe(401);
+
+      const newLoginResponse = await fetch(`${baseUrl}/auth/login`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email: 'test@example.com', password: 'NewPassword456' }),
+      });
+      expect(newLoginResponse.status).toBe(200);
+    });
+
+    it('should not allow a reset token to be used twice', async () => {
+      await requestReset('test@example.com');
+      const token = await extractResetToken('test@example.com');
+
+      const firstResponse = await resetPassword(token, 'NewPassword456');
+      expect(firstResponse.status).toBe(200);
+
+      const secondResponse = await resetPassword(token, 'OtherPassword789');
+      const data: any = await secondResponse.json();
+      expect(secondResponse.status).toBe(400);
+      expect(data).toHaveProperty('error', 'Invalid or expired reset token');
+    });
+
+    it('should reject an expired reset token', async () => {
+      await requestReset('test@example.com');
+      await prisma.passwordResetToken.updateMany({
+        data: { expiresAt: new Date(Date.now() - 1000) },
+      });
+
+      const response = await resetPassword(await extractResetToken('test@example.com'), 'NewPassword456');
+      expect(response.status).toBe(400);
+    });
+
+    it('should apply the signup password rules', async () => {
+      await requestReset('test@example.com');
+
+      const response = await resetPassword(await extractResetToken('test@example.com'), 'weak');
+      const data: any = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data).toHaveProperty('error', 'Validation failed');
+    });
+  });
+
+  describe('Email verification', () => {
+    const signup = async () => {
+      const response = await fetch(`${baseUrl}/auth/signup`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          email: 'test@example.com',
+          username: 'testuser',
+          password: 'Password123',
+        }),
+      });
+
+      return (await response.json()) as any;
+    };
+
+    const extractVerificationToken = async (email: string): Promise<string> => {
+      const messages = await getSentMail(email);
+      const match = messages[messages.length - 1].text.match(/Verification token: (\S+)/);
+      return match![1];
+    };
+
+    it('should send a verification email on signup and leave the account unverified', async () => {
+      const data = await signup();
+
+      expect(data.user.emailVerifiedAt).toBeNull();
+
+      const messages = await getSentMail('test@example.com');
+      expect(messages).toHaveLength(1);
+      expect(messages[0].subject).toBe('Verify your email address');
+    });
+
+    it('should verify the email with a valid token', async () => {
+      await signup();
+      const token = await extractVerificationToken('test@example.com');
+
+      const response = await fetch(`${baseUrl}/auth/verify-email?token=${encodeURIComponent(token)}`);
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data).toHaveProperty('message', 'Email verified successfully');
+
+      const user = await prisma.user.findUnique({ where: { email: 'test@example.com' } });
+      expect(user?.emailVerifiedAt).toBeTruthy();
+
+      // Tokens are single-use
+      const replayResponse = await fetch(`${baseUrl}/auth/verify-email?token=${encodeURIComponent(token)}`);
+      expect(replayResponse.status).toBe(400);
+    });
+
+    it('should reject an invalid verification token', async () => {
+      const response = await fetch(`${baseUrl}/auth/verify-email?token=bogus`);
+      const data: any = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data).toHaveProperty('error', 'Invalid or expired verification token');
+    });
+
+    it('should resend the verification email and invalidate the previous token', async () => {
+      const { token } = await signup();
+      const firstToken = await extractVerificationToken('test@example.com');
+
+      const response = await fetch(`${baseUrl}/auth/resend-verification`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      expect(response.status).toBe(200);
+      expect(await getSentMail('test@example.com')).toHaveLength(2);
+
+      const staleResponse = await fetch(`${baseUrl}/auth/verify-email?token=${encodeURIComponent(firstToken)}`);
+      expect(staleResponse.status).toBe(400);
+    });
+
+    it('should not resend when the email is already verified', async () => {
+      const { token } = await signup();
+      await prisma.user.updateMany({ data: { emailVerifiedAt: new Date() } });
+
+      const response = await fetch(`${baseUrl}/auth/resend-verification`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      const data: any = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data).toHaveProperty('error', 'Email already verified');
+    });
+
+    it('should let unverified users log in but not create posts or comments', async () => {
+      await signup();
+
+      const loginResponse = await fetch(`${baseUrl}/auth/login`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email: 'test@example.com', password: 'Password123' }),
+      });
+      const { token }: any = await loginResponse.json();
+      expect(loginResponse.status).toBe(200);
+
+      const postResponse = await fetch(`${baseUrl}/posts`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ title: 'Unverified Post', content: '# Content' }),
+      });
+      const postData: any = await postResponse.json();
+      expect(postResponse.status).toBe(403);
+      expect(postData).toHaveProperty('error', 'Email verification required');
+
+      const user = await prisma.user.findUnique({ where: { email: 'test@example.com' } });
+      const post = await prisma.post.create({
+        data: {
+          title: 'Existing Post',
+          content: '# Content',
+          slug: 'existing-post',
+          published: true,
+          authorId: user!.id,
+        },
+      });
+
+      const commentResponse = await fetch(`${baseUrl}/posts/${post.id}/comments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ content: 'Hello' }),
+      });
+      expect(commentResponse.status).toBe(403);
+    });
+  });
+
+  describe('Two-factor authentication', () => {
+    let token: string;
+
+    const post = (path: string, body: object, authToken?: string) =>
+      fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(authToken ? { 'Authorization': `Bearer ${authToken}` } : {}),
+        },
+        body: JSON.stringify(body),
+      });
+
+    // Codes for the next time step are still inside the verification window but have not been used yet
+    const nextCode = (secret: string) => generateTotp(secret, Date.now() + 30 * 1000);
+
+    const enableTwoFactor = async () => {
+      const setupResponse = await post('/auth/2fa/setup', {}, token);
+      const { secret }: any = await setupResponse.json();
+
+      const confirmResponse = await post('/auth/2fa/confirm', { code: generateTotp(secret) }, token);
+      const { recoveryCodes }: any = await confirmResponse.json();
+
+      return { secret, recoveryCodes: recoveryCodes as string[] };
+    };
+
+    beforeEach(async () => {
+      const signupResponse = await post('/auth/signup', {
+        email: 'test@example.com',
+        username: 'testuser',
+        password: 'Password123',
+      });
+      token = ((await signupResponse.json()) as any).token;
+    });
+
+    it('should return a secret and provisioning URI on setup', async () => {
+      const response = await post('/auth/2fa/setup', {}, token);
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.secret).toMatch(/^[A-Z2-7]+$/);
+      expect(data.otpauthUrl).toContain('otpauth://totp/');
+      expect(data.otpauthUrl).toContain(`secret=${data.secret}`);
+    });
+
+    it('should enable 2FA after confirming a valid code and return hashed recovery codes', async () => {
+      const { recoveryCodes } = await enableTwoFactor();
+
+      expect(recoveryCodes).toHaveLength(10);
+
+      const user = await prisma.user.findUnique({
+        where: { email: 'test@example.com' },
+        include: { recoveryCodes: true },
+      });
+      expect(user?.twoFactorEnabledAt).toBeTruthy();
+      expect(user?.recoveryCodes).toHaveLength(10);
+      expect(user?.recoveryCodes.map((code) => code.codeHash)).not.toContain(recoveryCodes[0]);
+    });
+
+    it('should reject confirmation with an invalid code', async () => {
+      await post('/auth/2fa/setup', {}, token);
+
+      const response = await post('/auth/2fa/confirm', { code: '000000' }, token);
+      expect(response.status).toBe(400);
+    });
+
+    it('should require a challenge exchange to log in', async () => {
+      const { secret } = await enableTwoFactor();
+
+      const loginResponse = await post('/auth/login', { email: 'test@example.com', password: 'Password123' });
+      const loginData: any = await loginResponse.json();
+
+      expect(loginResponse.status).toBe(200);
+      expect(loginData.twoFactorRequired).toBe(true);
+      expect(loginData).not.toHaveProperty('token');
+      expect(loginData).toHaveProperty('challengeToken');
+
+      // The challenge token is not an access token
+      const profileResponse = await fetch(`${baseUrl}/auth/profile`, {
+        headers: {
+          'Authorization': `Bearer ${loginData.challengeToken}`,
+        },
+      });
+      expect(profileResponse.status).toBe(401);
+
+      const response = await post('/auth/login/2fa', {
+        challengeToken: loginData.challengeToken,
+        code: nextCode(secret),
+      });
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data).toHaveProperty('token');
+      expect(data).toHaveProperty('refreshToken');
+    });
+
+    it('should reject a replayed TOTP code', async () => {
+      const { secret } = await enableTwoFactor();
+      const loginResponse = await post('/auth/login', { email: 'test@example.com', password: 'Password123' });
+      const { challengeToken }: any = await loginResponse.json();
+      const code = nextCode(secret);
+
+      const firstResponse = await post('/auth/login/2fa', { challengeToken, code });
+      expect(firstResponse.status).toBe(200);
+
+      const replayResponse = await post('/auth/login/2fa', { challengeToken, code });
+      expect(replayResponse.status).toBe(401);
+    });
+
+    it('should accept each recovery code only once', async () => {
+      const { recoveryCodes } = await enableTwoFactor();
+      const loginResponse = await post('/auth/login', { email: 'test@example.com', password: 'Password123' });
+      const { challengeToken }: any = await loginResponse.json();
+
+      const firstResponse = await post('/auth/login/2fa', { challengeToken, code: recoveryCodes[0] });
+      expect(firstResponse.status).toBe(200);
+
+      const secondResponse = await post('/auth/login/2fa', { challengeToken, code: recoveryCodes[0] });
+      const data: any = await secondResponse.json();
+      expect(secondResponse.status).toBe(401);
+      expect(data).toHaveProperty('error', 'Invalid authentication code');
+    });
+
+    it('should reject an invalid challenge token', async () => {
+      const response = await post('/auth/login/2fa', { challengeToken: token, code: '123456' });
+      const data: any = await response.json();
+
+      expect(response.status).toBe(401);
+      expect(data).toHaveProperty('error', 'Invalid or expired challenge token');
+    });
+
+    it('should regenerate recovery codes', async () => {
+      const { secret, recoveryCodes } = await enableTwoFactor();
+
+      const response = await post('/auth/2fa/recovery-codes', { code: nextCode(secret) }, token);
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.recoveryCodes).toHaveLength(10);
+      expect(data.recoveryCodes).not.toContain(recoveryCodes[0]);
+    });
+
+    it('should disable 2FA with password and code', async () => {
+      const { secret } = await enableTwoFactor();
+
+      const wrongPasswordResponse = await post('/auth/2fa/disable', { password: 'WrongPassword1', code: nextCode(secret) }, token);
+      expect(wrongPasswordResponse.status).toBe(401);
+
+      const response = await post('/auth/2fa/disable', { password: 'Password123', code: nextCode(secret) }, token);
+      expect(response.status).toBe(200);
+
+      const user = await prisma.user.findUnique({
+        where: { email: 'test@example.com' },
+        include: { recoveryCodes: true },
+      });
+      expect(user?.twoFactorEnabledAt).toBeNull();
+      expect(user?.twoFactorSecret).toBeNull();
+      expect(user?.recoveryCodes).toHaveLength(0);
+
+      const loginResponse = await post('/auth/login', { email: 'test@example.com', password: 'Password123' });
+      const loginData: any = await loginResponse.json();
+      expect(loginData).toHaveProperty('token');
+    });
+  });
+
+  describe('Login protection', () => {
+    const login = (email: string, password: string) =>
+      fetch(`${baseUrl}/auth/login`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email, password }),
+      });
+
+    const failLogins = async (count: number, email = 'test@example.com') => {
+      for (let i = 0; i < count; i++) {
+        await login(email, 'WrongPassword1');
+      }
+    };
+
+    const extractUnlockToken = async (email: string): Promise<string> => {
+      const messages = await getSentMail(email);
+      const match = messages[messages.length - 1].text.match(/Unlock token: (\S+)/);
+      return match![1];
+    };
+
+    beforeEach(async () => {
+      await prisma.user.create({
+        data: {
+          email: 'test@example.com',
+          username: 'testuser',
+          password: await bcrypt.hash('Password123', 12),
+        },
+      });
+    });
+
+    it('should lock the account after repeated failures', async () => {
+      await failLogins(5);
+
+      const response = await login('test@example.com', 'Password123');
+      const data: any = await response.json();
+
+      expect(response.status).toBe(429);
+      expect(data).toHaveProperty('error', 'Account temporarily locked');
+      expect(data.retryAfter).toBeGreaterThan(0);
+      expect(Number(response.headers.get('retry-after'))).toBe(data.retryAfter);
+
+      const user = await prisma.user.findUnique({ where: { email: 'test@example.com' } });
+      expect(user?.failedLoginCount).toBe(5);
+      expect(user?.lockedUntil).not.toBeNull();
+    });
+
+    it('should reset the failure count after a successful login', async () => {
+      await failLogins(3);
+
+      const response = await login('test@example.com', 'Password123');
+      expect(response.status).toBe(200);
+
+      const user = await prisma.user.findUnique({ where: { email: 'test@example.com' } });
+      expect(user?.failedLoginCount).toBe(0);
+    });
+
+    it('should allow login again once the lockout has expired', async () => {
+      await prisma.user.update({
+        where: { email: 'test@example.com' },
+        data: { failedLoginCount: 5, lockedUntil: new Date(Date.now() - 1000) },
+      });
+
+      const response = await login('test@example.com', 'Password123');
+      expect(response.status).toBe(200);
+    });
+
+    it('should unlock the account with the emailed token', async () => {
+      await failLogins(5);
+
+      const messages = await getSentMail('test@example.com');
+      expect(messages).toHaveLength(1);
+      expect(messages[0].subject).toBe('Your account has been locked');
+
+      const response = await fetch(`${baseUrl}/auth/unlock-account`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token: await extractUnlockToken('test@example.com') }),
+      });
+      expect(response.status).toBe(200);
+
+      const loginResponse = await login('test@example.com', 'Password123');
+      expect(loginResponse.status).toBe(200);
+    });
+
+    it('should reject an invalid unlock token', async () => {
+      const response = await fetch(`${baseUrl}/auth/unlock-account`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token: 'not-a-real-token' }),
+      });
+      const data: any = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data).toHaveProperty('error', 'Invalid or expired unlock token');
+    });
+
+    it('should throttle an IP address after too many failures', async () => {
+      for (let i = 0; i < 20; i++) {
+        await login(`unknown${i}@example.com`, 'WrongPassword1');
+      }
+
+      const response = await login('test@example.com', 'Password123');
+      const data: any = await response.json();
+
+      expect(response.status).toBe(429);
+      expect(data).toHaveProperty('error', 'Too many failed login attempts');
+      expect(response.headers.get('retry-after')).toBeTruthy();
+    });
+
+    it('should record login events for admin review', async () => {
+      await failLogins(1);
+      await login('test@example.com', 'Password123');
+
+      const admin = await prisma.user.create({
+        data: {
+          email: 'admin@example.com',
+          username: 'admin',
+          password: 'hashedpassword',
+          role: 'admin',
+        },
+      });
+      const session = await prisma.session.create({ data: { userId: admin.id } });
+      const adminToken = jwt.sign({ userId: admin.id, sid: session.id }, process.env.JWT_SECRET!);
+
+      const response = await fetch(`${baseUrl}/auth/login-events?email=test@example.com`, {
+        headers: {
+          'Authorization': `Bearer ${adminToken}`,
+        },
+      });
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.total).toBe(2);
+      expect(data.events[0]).toHaveProperty('success', true);
+      expect(data.events[1]).toHaveProperty('reason', 'invalid_password');
+
+      const invalidResponse = await fetch(`${baseUrl}/auth/login-events?ipAddress=not-an-ip`, {
+        headers: {
+          'Authorization': `Bearer ${adminToken}`,
+        },
+      });
+      expect(invalidResponse.status).toBe(400);
+    });
+
+    it('should not expose login events to non-admins', async () => {
+      const user = await prisma.user.findUnique({ where: { email: 'test@example.com' } });
+      const session = await prisma.session.create({ data: { userId: user!.id } });
+      const userToken = jwt.sign({ userId: user!.id, sid: session.id }, process.env.JWT_SECRET!);
+
+      const response = await fetch(`${baseUrl}/auth/login-events`, {
+        headers: {
+          'Authorization': `Bearer ${userToken}`,
+        },
+      });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('Profile management', () => {
+    let token: string;
+    let refreshToken: string;
+
+    const request = (method: string, path: string, body: object, authToken: string) =>
+      fetch(`${baseUrl}${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${authToken}`,
+        },
+        body: JSON.stringify(body),
+      });
+
+    const login = (email: string, password: string) =>
+      fetch(`${baseUrl}/auth/login`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email, password }),
+      });
+
+    beforeEach(async () => {
+      const signupResponse = await fetch(`${baseUrl}/auth/signup`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          email: 'test@example.com',
+          username: 'testuser',
+          password: 'Password123',
+        }),
+      });
+      const data: any = await signupResponse.json();
+      token = data.token;
+      refreshToken = data.refreshToken;
+    });
+
+    it('should update the username', async () => {
+      const response = await request('PATCH', '/auth/profile', { username: 'renamed' }, token);
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.user.username).toBe('renamed');
+    });
+
+    it('should reject a username that is already taken', async () => {
+      await prisma.user.create({
+        data: {
+          email: 'other@example.com',
+          username: 'otheruser',
+          password: 'hashedpassword',
+        },
+      });
+
+      const response = await request('PATCH', '/auth/profile', { username: 'otheruser' }, token);
+      const data: any = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data).toHaveProperty('message', 'Username already taken');
+    });
+
+    it('should require re-verification when the email changes', async () => {
+      await prisma.user.update({
+        where: { email: 'test@example.com' },
+        data: { emailVerifiedAt: new Date() },
+      });
+
+      const response = await request('PATCH', '/auth/profile', { email: 'new@example.com' }, token);
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.user.email).toBe('new@example.com');
+      expect(data.user.emailVerifiedAt).toBeNull();
+      expect(await getSentMail('new@example.com')).toHaveLength(1);
+    });
+
+    it('should update public profile fields', async () => {
+      const response = await request('PATCH', '/auth/profile', {
+        displayName: 'Test User',
+        bio: 'Hello there',
+        website: 'https://example.com',
+        socialLinks: { github: 'https://github.com/testuser' },
+      }, token);
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.user.displayName).toBe('Test User');
+      expect(data.user.website).toBe('https://example.com');
+      expect(data.user.socialLinks).toEqual({ github: 'https://github.com/testuser' });
+    });
+
+    it('should reject unknown social platforms', async () => {
+      const response = await request('PATCH', '/auth/profile', {
+        socialLinks: { myspace: 'https://myspace.com/testuser' },
+      }, token);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject an empty update', async () => {
+      const response = await request('PATCH', '/auth/profile', { username: 'testuser' }, token);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should change the password and sign out other sessions', async () => {
+      const otherLogin: any = await (await login('test@example.com', 'Password123')).json();
+
+      const wrongResponse = await request('POST', '/auth/change-password', { currentPassword: 'WrongPassword1', newPassword: 'NewPassword123' }, token);
+      expect(wrongResponse.status).toBe(401);
+
+      const response = await request('POST', '/auth/change-password', { currentPassword: 'Password123', newPassword: 'NewPassword123' }, token);
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.revokedCount).toBe(1);
+
+      const otherSessionResponse = await fetch(`${baseUrl}/auth/profile`, {
+        headers: {
+          'Authorization': `Bearer ${otherLogin.token}`,
+        },
+      });
+      expect(otherSessionResponse.status).toBe(401);
+
+      const currentSessionResponse = await fetch(`${baseUrl}/auth/profile`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      expect(currentSessionResponse.status).toBe(200);
+
+      const loginResponse = await login('test@example.com', 'NewPassword123');
+      expect(loginResponse.status).toBe(200);
+    });
+
+    it('should revoke personal access tokens when the password changes', async () => {
+      const user = await prisma.user.findUnique({ where: { email: 'test@example.com' } });
+      await prisma.personalAccessToken.create({
+        data: { userId: user!.id, name: 'Script', tokenHash: 'hash', prefix: 'psk_test', scopes: ['posts:read'] },
+      });
+
+      const response = await request('POST', '/auth/change-password', { currentPassword: 'Password123', newPassword: 'NewPassword123' }, token);
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.revokedTokenCount).toBe(1);
+      const activeTokens = await prisma.personalAccessToken.count({ where: { userId: user!.id, revokedAt: null } });
+      expect(activeTokens).toBe(0);
+    });
+
+    it('should require the password to delete the account', async () => {
+      const response = await request('DELETE', '/auth/account', { password: 'WrongPassword1' }, token);
+      const data: any = await response.json();
+
+      expect(response.status).toBe(401);
+      expect(data).toHaveProperty('error', 'Invalid password');
+    });
+
+    it('should anonymize the account and keep published posts', async () => {
+      const user = await prisma.user.update({
+        where: { email: 'test@example.com' },
+        data: { emailVerifiedAt: new Date() },
+      });
+      await prisma.post.create({
+        data: { title: 'Published', content: 'Content', slug: 'published', published: true, authorId: user.id },
+      });
+      await prisma.post.create({
+        data: { title: 'Draft', content: 'Content', slug: 'draft', authorId: user.id },
+      });
+
+      const response = await request('DELETE', '/auth/account', { password: 'Password123' }, token);
+      expect(response.status).toBe(200);
+
+      const deletedUser = await prisma.user.findUnique({
+        where: { id: user.id },
+        include: { posts: true },
+      });
+      expect(deletedUser?.deletedAt).not.toBeNull();
+      expect(deletedUser?.email).not.toBe('test@example.com');
+      expect(deletedUser?.posts.map((post) => post.slug)).toEqual(['published']);
+
+      const loginResponse = await login('test@example.com', 'Password123');
+      expect(loginResponse.status).toBe(401);
+
+      const refreshResponse = await fetch(`${baseUrl}/auth/refresh`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken }),
+      });
+      expect(refreshResponse.status).toBe(401);
+    });
+  });
 });
@@ -25,6 +25,7 @@ describe('Cache Middleware', () => {
     mockRes = {
       json: jsonMock,
       status: statusMock,
+      get: jest.fn() as any,
     };
     mockNext = jest.fn();
 
@@ -46,7 +47,7 @@ describe('Cache Middleware', () => {
     const testKey = generateCacheKey(mockReq as AuthRequest);
     const testData = { posts: [{ id: 1, title: 'Test' }], pagination: {} };
 
-    cache.set(testKey, testData, CACHE_CONFIG.TTL_POSTS_LIST);
+    cache.set(testKey, { body: testData }, CACHE_CONFIG.TTL_POSTS_LIST);
 
     // 2️⃣ Second request → cache hit → should NOT call next()
     jest.clearAllMocks();
@@ -66,10 +67,54 @@ describe('Cache Middleware', () => {
     expect(mockRes.json).not.toHaveBeenCalled();
   });
 
+  it('should only cache successful responses', () => {
+    const middleware = cacheMiddleware(CACHE_CONFIG.TTL_POSTS_LIST);
+    const testKey = generateCacheKey(mockReq as AuthRequest);
+
+    mockRes.statusCode = 301;
+    middleware(mockReq as AuthRequest, mockRes as Response, mockNext);
+    (mockRes as Response).json({ message: 'Post has moved' });
+    expect(cache.get(testKey)).toBeUndefined();
+
+    mockRes = { json: jsonMock, status: statusMock, get: jest.fn() as any, statusCode: 200 };
+    middleware(mockReq as AuthRequest, mockRes as Response, mockNext);
+    (mockRes as Response).json({ posts: [] });
+    expect(cache.get(testKey)).toEqual({ body: { posts: [] } });
+  });
+
+  it('should replay the ETag and answer conditional requests from the cache', () => {
+    const middleware = cacheMiddleware(CACHE_CONFIG.TTL_POSTS_SINGLE);
+    const testKey = generateCacheKey(mockReq as AuthRequest);
+    const setMock = jest.fn();
+    const endMock = jest.fn();
+    cache.set(testKey, { body: { post: { version: 2 } }, etag: '"2"' }, CACHE_CONFIG.TTL_POSTS_SINGLE);
+
+    mockRes = { json: jsonMock, status: statusMock, set: setMock as any, end: endMock as any };
+    middleware({ ...mockReq, fresh: true } as AuthRequest, mockRes as Response, mockNext);
+
+    expect(setMock).toHaveBeenCalledWith('ETag', '"2"');
+    expect(statusMock).toHaveBeenCalledWith(304);
+    expect(endMock).toHaveBeenCalled();
+    expect(jsonMock).not.toHaveBeenCalled();
+
+    middleware({ ...mockReq, fresh: false } as AuthRequest, mockRes as Response, mockNext);
+    expect(jsonMock).toHaveBeenCalledWith({ post: { version: 2 } });
+  });
+
   it('should invalidate cache correctly', () => {
     expect(() => invalidateCache.invalidateListCaches()).not.toThrow();
     expect(() => invalidateCache.invalidatePostCache('test-slug')).not.toThrow();
     expect(() => invalidateCache.invalidateUserCaches('user123')).not.toThrow();
     expect(() => invalidateCache.invalidateAll()).not.toThrow();
   });
+
+  it('should invalidate only the saved list of the given user', () => {
+    cache.set('/api/posts/saved:user1:', { body: { posts: [] } });
+    cache.set('/api/posts/saved:user1:limit:5', { body: { posts: [] } });
+    cache.set('/api/posts/saved:user2:', { body: { posts: [] } });
+
+    invalidateCache.invalidateSavedCache('user1');
+
+    expect(cache.keys()).toEqual(['/api/posts/saved:user2:']);
+  });
 });
@@ -16,10 +16,12 @@ describe('Categories API', () => {
         email: 'test@example.com',
         username: 'testuser',
         password: hashedPassword,
+        emailVerifiedAt: new Date(),
       },
     });
     userId = user.id;
-    authToken = jwt.sign({ userId: user.id }, process.env.JWT_SECRET!);
+    const session = await prisma.session.create({ data: { userId: user.id } });
+    authToken = jwt.sign({ userId: user.id, sid: session.id }, process.env.JWT_SECRET!);
 
     // Get a category ID for testing
     const categories = await prisma.category.findMany();
@@ -308,4 +310,110 @@ describe('Categories API', () => {
       expect(data.post.category.id).toBe(categoryId);
     });
   });
+
+  describe('Category management', () => {
+    let editorToken: string;
+
+    const sendCategory = (method: string, path: string, token: string, body?: object) =>
+      fetch(`${baseUrl}/categories${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+    beforeEach(async () => {
+      const editor = await prisma.user.create({
+        data: {
+          email: 'editor@example.com',
+          username: 'editoruser',
+          password: await bcrypt.hash('Password123', 12),
+          role: 'editor',
+        },
+      });
+      const session = await prisma.session.create({ data: { userId: editor.id } });
+      editorToken = jwt.sign({ userId: editor.id, sid: session.id }, process.env.JWT_SECRET!);
+    });
+
+    afterEach(async () => {
+      // Keep only the predefined categories seeded by the migration
+      await prisma.category.deleteMany({
+        where: { NOT: { id: { startsWith: 'cat_' } } },
+      });
+    });
+
+    it('should allow editors to create a category', async () => {
+      const response = await sendCategory('POST', '', editorToken, { name: 'Science Fiction' });
+      const data: any = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.category.name).toBe('Science Fiction');
+      expect(data.category.slug).toBe('science-fiction');
+    });
+
+    it('should reject duplicate categories', async () => {
+      const response = await sendCategory('POST', '', editorToken, { name: 'Technology' });
+      const data: any = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data).toHaveProperty('error', 'Category already exists');
+    });
+
+    it('should not allow authors to manage categories', async () => {
+      const createResponse = await sendCategory('POST', '', authToken, { name: 'Science Fiction' });
+      expect(createResponse.status).toBe(403);
+
+      const updateResponse = await sendCategory('PUT', `/${categoryId}`, authToken, { name: 'Renamed' });
+      expect(updateResponse.status).toBe(403);
+
+      const deleteResponse = await sendCategory('DELETE', `/${categoryId}`, authToken);
+      expect(deleteResponse.status).toBe(403);
+    });
+
+    it('should require authentication to manage categories', async () => {
+      const response = await fetch(`${baseUrl}/categories`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: 'Science Fiction' }),
+      });
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should allow editors to rename and delete a category', async () => {
+      const createResponse = await sendCategory('POST', '', editorToken, { name: 'Science Fiction' });
+      const { category }: any = await createResponse.json();
+
+      const post = await prisma.post.create({
+        data: {
+          title: 'Categorized Post',
+          content: '# Content',
+          slug: 'categorized-post',
+          published: true,
+          authorId: userId,
+          categoryId: category.id,
+        },
+      });
+
+      const updateResponse = await sendCategory('PUT', `/${category.id}`, editorToken, { name: 'Sci-Fi' });
+      const updateData: any = await updateResponse.json();
+      expect(updateResponse.status).toBe(200);
+      expect(updateData.category.name).toBe('Sci-Fi');
+
+      const deleteResponse = await sendCategory('DELETE', `/${category.id}`, editorToken);
+      expect(deleteResponse.status).toBe(200);
+
+      const uncategorizedPost = await prisma.post.findUnique({ where: { id: post.id } });
+      expect(uncategorizedPost?.categoryId).toBeNull();
+    });
+
+    it('should return 404 when updating a non-existent category', async () => {
+      const response = await sendCategory('PUT', '/non-existent-id', editorToken, { name: 'Anything' });
+      expect(response.status).toBe(404);
+    });
+  });
 });
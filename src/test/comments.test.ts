@@ -0,0 +1,279 @@
+import { PrismaClient } from '@prisma/client';
+import { prisma } from './setup';
+import { buildCommentTree, CommentRow, COMMENT_SORT_KEYS, detachRepliedComments, findCommentPage, getCommentThreads, pruneTombstones } from '../utils/comments';
+import { decodeCursor, getPagination } from '../utils/pagination';
+
+describe('Comment threads', () => {
+  const baseUrl = `http://localhost:${process.env.PORT}/api`;
+
+  describe('buildCommentTree', () => {
+    const row = (id: string, parentId: string | null, overrides: Partial<CommentRow> = {}): CommentRow => ({
+      id,
+      content: `Comment ${id}`,
+      postId: 'post',
+      userId: 'user',
+      parentId,
+      createdAt: new Date('2025-01-01'),
+      updatedAt: new Date('2025-01-01'),
+      editedAt: null,
+      deletedAt: null,
+      username: 'writer',
+      likeCount: 0,
+      replyCount: 0,
+      ...overrides,
+    });
+
+    it('should nest replies under their parents in row order', () => {
+      const tree = buildCommentTree([row('a', null), row('b', null), row('a1', 'a'), row('a2', 'a'), row('a1x', 'a1')]);
+
+      expect(tree.map((node) => node.id)).toEqual(['a', 'b']);
+      expect(tree[0].replies.map((node) => node.id)).toEqual(['a1', 'a2']);
+      expect(tree[0].replies[0].replies.map((node) => node.id)).toEqual(['a1x']);
+      expect(tree[1].replies).toEqual([]);
+    });
+
+    it('should attach replies that come before their parent', () => {
+      const tree = buildCommentTree([row('reply', 'parent'), row('parent', null)]);
+
+      expect(tree.map((node) => node.id)).toEqual(['parent']);
+      expect(tree[0].replies.map((node) => node.id)).toEqual(['reply']);
+    });
+
+    it('should hide the author of deleted comments', () => {
+      const [node] = buildCommentTree([row('gone', null, { deletedAt: new Date(), content: '[deleted]' })]);
+
+      expect(node).toMatchObject({ content: '[deleted]', userId: null, user: null });
+    });
+
+    it('should give a replies cursor only when some replies are not shown', () => {
+      const tree = buildCommentTree([
+        row('full', null, { replyCount: 1 }),
+        row('partial', null, { replyCount: 5 }),
+        row('full-1', 'full'),
+        row('partial-1', 'partial'),
+      ]);
+
+      expect(tree[0].repliesCursor).toBeNull();
+      expect(tree[1].repliesCursor).toEqual(expect.any(String));
+    });
+
+    it('should issue replies cursors for the sort the replies are in', () => {
+      const [node] = buildCommentTree([row('parent', null, { replyCount: 4 }), row('liked', 'parent', { likeCount: 2 })], 'top');
+
+      expect(decodeCursor(node.repliesCursor!, COMMENT_SORT_KEYS.top)).toEqual([2, new Date('2025-01-01'), 'liked']);
+      expect(decodeCursor(node.repliesCursor!, COMMENT_SORT_KEYS.oldest)).toBeNull();
+    });
+  });
+
+  describe('GET /api/posts/:postId/comments with a large thread', () => {
+    it('should load hundreds of comments with like counts in a fixed number of queries', async () => {
+      const author = await prisma.user.create({
+        data: { email: 'thread@example.com', username: 'threadauthor', password: 'hashed' },
+      });
+      const post = await prisma.post.create({
+        data: { title: 'Busy thread', content: 'Body', slug: 'busy-thread', published: true, authorId: author.id },
+      });
+
+      // 100 top-level comments, each with a chain of four nested replies
+      const comments = [];
+      for (let thread = 0; thread < 100; thread++) {
+        for (let level = 0; level < 5; level++) {
+          comments.push({
+            id: `bench-${thread}-${level}`,
+            content: `Thread ${thread} level ${level}`,
+            postId: post.id,
+            userId: author.id,
+            parentId: level === 0 ? null : `bench-${thread}-${level - 1}`,
+            createdAt: new Date(Date.UTC(2025, 0, 1, 0, thread, level)),
+          });
+        }
+      }
+      await prisma.comment.createMany({ data: comments });
+      await prisma.commentLike.createMany({
+        data: comments.filter((_, index) => index % 10 === 0).map((comment) => ({ userId: author.id, commentId: comment.id })),
+      });
+
+      const response = await fetch(`${baseUrl}/posts/${post.id}/comments?limit=100`);
+      const data: any = await response.json();
+
+      const countNodes = (nodes: any[]): number => nodes.reduce((sum, node) => sum + 1 + countNodes(node.replies), 0);
+      const sumLikes = (nodes: any[]): number => nodes.reduce((sum, node) => sum + node.likeCount + sumLikes(node.replies), 0);
+
+      expect(response.status).toBe(200);
+      expect(data.comments).toHaveLength(100);
+      expect(countNodes(data.comments)).toBe(500);
+      expect(sumLikes(data.comments)).toBe(50);
+      expect(data.comments[0].replies[0].replies[0].replies[0].replies[0].id).toBe('bench-0-4');
+
+      // One query for the page and one for the threads under it, instead of two per comment
+      const queryRaw = jest.spyOn(PrismaClient.prototype, '$queryRaw');
+      try {
+        const { items } = await findCommentPage(post.id, null, getPagination({ limit: '100' }, COMMENT_SORT_KEYS.oldest)!);
+        const threads = await getCommentThreads(items);
+
+        expect(countNodes(threads)).toBe(500);
+        expect(queryRaw).toHaveBeenCalledTimes(2);
+      } finally {
+        queryRaw.mockRestore();
+      }
+    });
+  });
+
+  describe('Paging and sorting comments', () => {
+    let postId: string;
+    let authorId: string;
+    let likerIds: string[];
+
+    const createComment = (id: string, minute: number, parentId?: string) =>
+      prisma.comment.create({
+        data: {
+          id,
+          content: `Comment ${id}`,
+          postId,
+          userId: authorId,
+          parentId,
+          createdAt: new Date(Date.UTC(2025, 0, 1, 0, minute)),
+        },
+      });
+
+    const like = (commentId: string, count: number) =>
+      prisma.commentLike.createMany({
+        data: likerIds.slice(0, count).map((userId) => ({ userId, commentId })),
+      });
+
+    const getJson = async (path: string) => {
+      const response = await fetch(`${baseUrl}/posts/${postId}/comments${path}`);
+      return { response, data: (await response.json()) as any };
+    };
+
+    beforeEach(async () => {
+      const author = await prisma.user.create({
+        data: { email: 'paging@example.com', username: 'pagingauthor', password: 'hashed' },
+      });
+      authorId = author.id;
+      const post = await prisma.post.create({
+        data: { title: 'Paged thread', content: 'Body', slug: 'paged-thread', published: true, authorId },
+      });
+      postId = post.id;
+
+      likerIds = [];
+      for (let index = 0; index < 3; index++) {
+        const liker = await prisma.user.create({
+          data: { email: `liker${index}@example.com`, username: `liker${index}`, password: 'hashed' },
+        });
+        likerIds.push(liker.id);
+      }
+
+      await createComment('first', 1);
+      await createComment('second', 2);
+      await createComment('third', 3);
+      await like('second', 3);
+      await like('third', 1);
+    });
+
+    it('should page top-level comments oldest first by default', async () => {
+      const { data: first } = await getJson('?limit=2');
+      const { data: second } = await getJson(`?limit=2&cursor=${first.pagination.nextCursor}`);
+
+      expect(first.comments.map((comment: any) => comment.id)).toEqual(['first', 'second']);
+      expect(first.pagination).toMatchObject({ page: 1, limit: 2, total: 3 });
+      expect(second.comments.map((comment: any) => comment.id)).toEqual(['third']);
+      expect(second.pagination.nextCursor).toBeNull();
+    });
+
+    it('should sort by newest and by like count', async () => {
+      const { data: newest } = await getJson('?sort=newest');
+      const { data: top } = await getJson('?sort=top&limit=2');
+      const { data: topRest } = await getJson(`?sort=top&limit=2&cursor=${top.pagination.nextCursor}`);
+
+      expect(newest.comments.map((comment: any) => comment.id)).toEqual(['third', 'second', 'first']);
+      expect(top.comments.map((comment: any) => [comment.id, comment.likeCount])).toEqual([['second', 3], ['third', 1]]);
+      expect(topRest.comments.map((comment: any) => comment.id)).toEqual(['first']);
+    });
+
+    it('should reject unknown sorts and cursors from another sort', async () => {
+      const { data: top } = await getJson('?sort=top&limit=1');
+
+      const { response: badSort } = await getJson('?sort=random');
+      const { response: mismatched } = await getJson(`?sort=newest&cursor=${top.pagination.nextCursor}`);
+
+      expect(badSort.status).toBe(400);
+      expect(mismatched.status).toBe(400);
+    });
+
+    it('should preview replies with counts and load the rest with the replies cursor', async () => {
+      for (let minute = 10; minute < 15; minute++) {
+        await createComment(`reply-${minute}`, minute, 'first');
+      }
+
+      const { data } = await getJson('?limit=1');
+      const [thread] = data.comments;
+
+      expect(thread.replyCount).toBe(5);
+      expect(thread.replies.map((reply: any) => reply.id)).toEqual(['reply-10', 'reply-11', 'reply-12']);
+      expect(thread.replies[0].replyCount).toBe(0);
+
+      const { response, data: more } = await getJson(`/first/replies?cursor=${thread.repliesCursor}`);
+
+      expect(response.status).toBe(200);
+      expect(more.replies.map((reply: any) => reply.id)).toEqual(['reply-13', 'reply-14']);
+      expect(more.pagination).toEqual({ limit: 20, nextCursor: null });
+    });
+
+    it('should preview and continue replies in the requested sort', async () => {
+      for (let minute = 10; minute < 15; minute++) {
+        await createComment(`reply-${minute}`, minute, 'second');
+      }
+      await like('reply-12', 3);
+      await like('reply-10', 2);
+
+      const { data } = await getJson('?sort=top&limit=1');
+      const [thread] = data.comments;
+
+      expect(thread.id).toBe('second');
+      expect(thread.replies.map((reply: any) => reply.id)).toEqual(['reply-12', 'reply-10', 'reply-14']);
+
+      const { response, data: more } = await getJson(`/second/replies?sort=top&cursor=${thread.repliesCursor}`);
+
+      expect(response.status).toBe(200);
+      expect(more.replies.map((reply: any) => reply.id)).toEqual(['reply-13', 'reply-11']);
+    });
+
+    it('should return 404 for replies of a comment on another post', async () => {
+      const { response } = await getJson('/missing/replies');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('Deleting a commenter', () => {
+    it('should keep replies from other users when the account is removed', async () => {
+      const leaving = await prisma.user.create({
+        data: { email: 'leaving@example.com', username: 'leaving', password: 'hashed' },
+      });
+      const staying = await prisma.user.create({
+        data: { email: 'staying@example.com', username: 'staying', password: 'hashed' },
+      });
+      const post = await prisma.post.create({
+        data: { title: 'Shared thread', content: 'Body', slug: 'shared-thread', published: true, authorId: staying.id },
+      });
+      await prisma.comment.create({ data: { id: 'leaving-root', content: 'Root', postId: post.id, userId: leaving.id } });
+      await prisma.comment.create({ data: { id: 'leaving-alone', content: 'Alone', postId: post.id, userId: leaving.id } });
+      await prisma.comment.create({
+        data: { id: 'staying-reply', content: 'Reply', postId: post.id, userId: staying.id, parentId: 'leaving-root' },
+      });
+
+      const detached = await detachRepliedComments(leaving.id);
+      await prisma.user.delete({ where: { id: leaving.id } });
+      await pruneTombstones(detached);
+
+      const remaining = await prisma.comment.findMany({ where: { postId: post.id }, orderBy: { id: 'asc' } });
+
+      expect(detached).toEqual(['leaving-root']);
+      expect(remaining.map((comment) => [comment.id, comment.userId, comment.content])).toEqual([
+        ['leaving-root', null, '[deleted]'],
+        ['staying-reply', staying.id, 'Reply'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { diffLines } from '../utils/diff';
+
+describe('diffLines', () => {
+  it('should mark identical text as unchanged', () => {
+    const result = diffLines('a\nb', 'a\nb');
+
+    expect(result.every((line) => line.type === 'equal')).toBe(true);
+    expect(result).toHaveLength(2);
+  });
+
+  it('should report added and removed lines with line numbers', () => {
+    const result = diffLines('# Title\nold line\nfooter', '# Title\nnew line\nfooter\nextra');
+
+    expect(result).toEqual([
+      { type: 'equal', line: '# Title', oldNumber: 1, newNumber: 1 },
+      { type: 'removed', line: 'old line', oldNumber: 2 },
+      { type: 'added', line: 'new line', newNumber: 2 },
+      { type: 'equal', line: 'footer', oldNumber: 3, newNumber: 3 },
+      { type: 'added', line: 'extra', newNumber: 4 },
+    ]);
+  });
+
+  it('should find a minimal diff', () => {
+    const oldText = ['a', 'b', 'c', 'a', 'b', 'b', 'a'].join('\n');
+    const newText = ['c', 'b', 'a', 'b', 'a', 'c'].join('\n');
+
+    const result = diffLines(oldText, newText);
+
+    // The longest common subsequence of these sequences has 4 lines
+    expect(result.filter((line) => line.type === 'equal')).toHaveLength(4);
+    expect(result.filter((line) => line.type !== 'added').map((line) => line.line).join('\n')).toBe(oldText);
+    expect(result.filter((line) => line.type !== 'removed').map((line) => line.line).join('\n')).toBe(newText);
+  });
+
+  it('should handle empty text', () => {
+    expect(diffLines('', 'hello')).toEqual([
+      { type: 'removed', line: '', oldNumber: 1 },
+      { type: 'added', line: 'hello', newNumber: 1 },
+    ]);
+  });
+});
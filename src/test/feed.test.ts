@@ -0,0 +1,181 @@
+import { prisma, fetchJson } from './setup';
+import jwt from 'jsonwebtoken';
+
+interface FeedResponse {
+  posts: {
+    slug: string;
+    content?: string;
+    likeCount: number;
+    likedByViewer: boolean;
+    savedByViewer: boolean;
+  }[];
+  pagination: { limit: number; nextCursor: string | null };
+  error?: string;
+}
+
+describe('Feed API', () => {
+  const baseUrl = `http://localhost:${process.env.PORT}/api`;
+  let viewerId: string;
+  let viewerToken: string;
+  let followedId: string;
+  let strangerId: string;
+
+  const createPost = (data: {
+    slug: string;
+    authorId: string;
+    published?: boolean;
+    createdAt?: Date;
+    categoryId?: string;
+    tagIds?: string[];
+  }) =>
+    prisma.post.create({
+      data: {
+        title: data.slug,
+        content: 'Feed content',
+        slug: data.slug,
+        published: data.published ?? true,
+        authorId: data.authorId,
+        createdAt: data.createdAt,
+        categoryId: data.categoryId,
+        tags: data.tagIds ? { create: data.tagIds.map((tagId) => ({ tagId })) } : undefined,
+      },
+    });
+
+  const getFeed = (params = '') =>
+    fetchJson<FeedResponse>(`${baseUrl}/feed${params}`, {
+      headers: { Authorization: `Bearer ${viewerToken}` },
+    });
+
+  beforeEach(async () => {
+    const viewer = await prisma.user.create({
+      data: { email: 'viewer@example.com', username: 'viewer', password: 'hashed' },
+    });
+    const followed = await prisma.user.create({
+      data: { email: 'followed@example.com', username: 'followed', password: 'hashed' },
+    });
+    const stranger = await prisma.user.create({
+      data: { email: 'stranger@example.com', username: 'stranger', password: 'hashed' },
+    });
+    viewerId = viewer.id;
+    followedId = followed.id;
+    strangerId = stranger.id;
+
+    const session = await prisma.session.create({ data: { userId: viewer.id } });
+    viewerToken = jwt.sign({ userId: viewer.id, sid: session.id }, process.env.JWT_SECRET!);
+
+    await prisma.follow.create({
+      data: { followerId: viewerId, followingId: followedId },
+    });
+  });
+
+  describe('GET /api/feed', () => {
+    it('should require authentication', async () => {
+      const response = await fetch(`${baseUrl}/feed`);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should list published posts from followed authors, newest first', async () => {
+      await createPost({ slug: 'followed-old', authorId: followedId, createdAt: new Date('2025-01-01') });
+      await createPost({ slug: 'followed-new', authorId: followedId, createdAt: new Date('2025-02-01') });
+      await createPost({ slug: 'followed-draft', authorId: followedId, published: false });
+      await createPost({ slug: 'stranger-post', authorId: strangerId });
+      await createPost({ slug: 'own-post', authorId: viewerId });
+
+      const { response, data } = await getFeed();
+
+      expect(response.status).toBe(200);
+      expect(data.posts.map((post) => post.slug)).toEqual(['followed-new', 'followed-old']);
+      expect(data.posts[0].content).toBeUndefined();
+      expect(data.pagination).toEqual({ limit: 10, nextCursor: null });
+    });
+
+    it('should flag posts the viewer liked or saved', async () => {
+      const liked = await createPost({ slug: 'liked-post', authorId: followedId, createdAt: new Date('2025-02-01') });
+      const saved = await createPost({ slug: 'saved-post', authorId: followedId, createdAt: new Date('2025-01-01') });
+      await prisma.postLike.create({ data: { userId: viewerId, postId: liked.id } });
+      await prisma.savedPost.create({ data: { userId: viewerId, postId: saved.id } });
+      await prisma.postLike.create({ data: { userId: strangerId, postId: saved.id } });
+
+      const { data } = await getFeed();
+
+      expect(data.posts.map((post) => [post.slug, post.likedByViewer, post.savedByViewer, post.likeCount])).toEqual([
+        ['liked-post', true, false, 1],
+        ['saved-post', false, true, 1],
+      ]);
+    });
+
+    it('should include posts from followed tags and categories', async () => {
+      await prisma.tagFollow.create({ data: { userId: viewerId, tagId: 'tag_design' } });
+      await prisma.categoryFollow.create({ data: { userId: viewerId, categoryId: 'cat_tech' } });
+      await createPost({ slug: 'tagged-post', authorId: strangerId, tagIds: ['tag_design'], createdAt: new Date('2025-03-01') });
+      await createPost({ slug: 'category-post', authorId: strangerId, categoryId: 'cat_tech', createdAt: new Date('2025-02-01') });
+      await createPost({ slug: 'author-post', authorId: followedId, createdAt: new Date('2025-01-01') });
+
+      const { data } = await getFeed();
+      const { data: authorsOnly } = await getFeed('?sources=authors');
+      const { data: tagsOnly } = await getFeed('?sources=tags');
+
+      expect(data.posts.map((post) => post.slug)).toEqual(['tagged-post', 'category-post', 'author-post']);
+      expect(authorsOnly.posts.map((post) => post.slug)).toEqual(['author-post']);
+      expect(tagsOnly.posts.map((post) => post.slug)).toEqual(['tagged-post']);
+    });
+
+    it('should reject unknown sources', async () => {
+      const { response, data } = await getFeed('?sources=authors,friends');
+
+      expect(response.status).toBe(400);
+      expect(data.error).toContain('Invalid sources');
+    });
+
+    it('should page through the feed with a cursor', async () => {
+      for (let day = 1; day <= 3; day++) {
+        await createPost({ slug: `feed-${day}`, authorId: followedId, createdAt: new Date(`2025-01-0${day}`) });
+      }
+
+      const { data: first } = await getFeed('?limit=2');
+      const { data: second } = await getFeed(`?limit=2&cursor=${first.pagination.nextCursor}`);
+
+      expect(first.posts.map((post) => post.slug)).toEqual(['feed-3', 'feed-2']);
+      expect(second.posts.map((post) => post.slug)).toEqual(['feed-1']);
+      expect(second.pagination.nextCursor).toBeNull();
+    });
+  });
+
+  describe('Following tags and categories', () => {
+    it('should follow and unfollow a tag', async () => {
+      const follow = await fetch(`${baseUrl}/tags/tag_design/follow`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${viewerToken}` },
+      });
+      const again = await fetch(`${baseUrl}/tags/tag_design/follow`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${viewerToken}` },
+      });
+      const unfollow = await fetch(`${baseUrl}/tags/tag_design/follow`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${viewerToken}` },
+      });
+
+      expect(follow.status).toBe(201);
+      expect(again.status).toBe(400);
+      expect(unfollow.status).toBe(200);
+      expect(await prisma.tagFollow.count({ where: { userId: viewerId } })).toBe(0);
+    });
+
+    it('should follow a category and return 404 for unknown ones', async () => {
+      const follow = await fetch(`${baseUrl}/categories/cat_tech/follow`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${viewerToken}` },
+      });
+      const missing = await fetch(`${baseUrl}/categories/missing/follow`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${viewerToken}` },
+      });
+
+      expect(follow.status).toBe(201);
+      expect(missing.status).toBe(404);
+      expect(await prisma.categoryFollow.count({ where: { userId: viewerId, categoryId: 'cat_tech' } })).toBe(1);
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import path from 'path';
 import dotenv from 'dotenv';
+import http from 'http';
 import { execSync } from 'child_process';
 
 const envPath =
@@ -13,6 +14,7 @@ console.log(`🧩 Loaded environment from: ${envPath}`);
 console.log(`🔧 NODE_ENV=${process.env.NODE_ENV}`);
 
 import app from '../index';
+import { getSentMail, clearSentMail } from '../utils/mailer';
 
 export default async () => {
   console.log('🏗️ Running Prisma migrations for test DB...');
@@ -25,7 +27,24 @@ export default async () => {
 
   console.log('🚀 Starting test server...');
 
-  const server = app.listen(PORT, () => {
+  // Test files run in their own module registry, so the server's in-memory outbox is
+  // exposed to them over HTTP: GET returns a recipient's messages, DELETE empties it
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== '/__test__/mail') {
+      return app(req, res);
+    }
+
+    if (req.method === 'DELETE') {
+      clearSentMail();
+      res.writeHead(204).end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(getSentMail(url.searchParams.get('to') || '')));
+  });
+
+  server.listen(PORT, () => {
     console.log(`✅ Test server running on port ${PORT}`);
   });
 
@@ -0,0 +1,59 @@
+import { renderMarkdown, slugifyHeading, markdownToPlainText } from '../utils/markdown';
+
+describe('Markdown rendering', () => {
+  it('should render Markdown to HTML', () => {
+    const { html } = renderMarkdown('Some **bold** text');
+
+    expect(html).toBe('<p>Some <strong>bold</strong> text</p>\n');
+  });
+
+  it('should escape raw HTML and drop unsafe links', () => {
+    const { html } = renderMarkdown('<script>alert(1)</script>\n\n[click](javascript:alert(1)) <img src=x onerror=alert(1)>');
+
+    expect(html).not.toContain('<script>');
+    expect(html).not.toContain('href="javascript:');
+    expect(html).not.toContain('<img');
+    expect(html).toContain('&lt;script&gt;');
+  });
+
+  it('should mark links as nofollow', () => {
+    const { html } = renderMarkdown('[site](https://example.com)');
+
+    expect(html).toContain('<a href="https://example.com" rel="nofollow noopener noreferrer">site</a>');
+  });
+
+  it('should add unique heading ids and build a table of contents', () => {
+    const { html, toc } = renderMarkdown('# Getting Started\n\n## Install\n\n## Install\n\n### Use `npm`');
+
+    expect(html).toContain('<h1 id="getting-started">Getting Started</h1>');
+    expect(html).toContain('<h2 id="install-1">Install</h2>');
+    expect(toc).toEqual([
+      { level: 1, text: 'Getting Started', id: 'getting-started' },
+      { level: 2, text: 'Install', id: 'install' },
+      { level: 2, text: 'Install', id: 'install-1' },
+      { level: 3, text: 'Use npm', id: 'use-npm' },
+    ]);
+  });
+
+  it('should add syntax highlighting classes to known languages', () => {
+    const { html } = renderMarkdown('```js\nconst answer = 42;\n```');
+
+    expect(html).toContain('<code class="hljs language-js">');
+    expect(html).toContain('<span class="hljs-keyword">const</span>');
+  });
+
+  it('should escape code in unknown languages', () => {
+    const { html } = renderMarkdown('```madeup\n<b>bold</b>\n```');
+
+    expect(html).toContain('<code class="language-madeup">&lt;b&gt;bold&lt;/b&gt;');
+  });
+
+  it('should slugify headings', () => {
+    expect(slugifyHeading('  Hello, World!  ')).toBe('hello-world');
+    expect(slugifyHeading('***')).toBe('section');
+  });
+
+  it('should convert Markdown to plain text', () => {
+    expect(markdownToPlainText('# Title\n\n- one\n- [two](https://example.com)\n\nline\nbreak `code`')).toBe('Title one two line break code');
+  });
+});
@@ -0,0 +1,71 @@
+import { encodeCursor, decodeCursor, getPagination, paginationWhere, parseLimit, takePage, SortKey } from '../utils/pagination';
+
+describe('Pagination utilities', () => {
+  const keys: SortKey[] = [
+    { field: 'featured', direction: 'desc', type: 'boolean' },
+    { field: 'createdAt', direction: 'desc', type: 'date' },
+    { field: 'id', direction: 'desc', type: 'string' },
+  ];
+
+  it('should round-trip cursor values including dates', () => {
+    const createdAt = new Date('2025-05-01T10:00:00Z');
+    const cursor = encodeCursor({ featured: true, createdAt, id: 'post-1' }, keys);
+
+    expect(decodeCursor(cursor, keys)).toEqual([true, createdAt, 'post-1']);
+  });
+
+  it('should reject malformed cursors and cursors for another sort order', () => {
+    const cursor = encodeCursor({ featured: false, createdAt: new Date(), id: 'post-1' }, keys);
+    const otherKeys: SortKey[] = [{ field: 'title', direction: 'asc', type: 'string' }, { field: 'id', direction: 'asc', type: 'string' }];
+
+    expect(decodeCursor('not-a-cursor', keys)).toBeNull();
+    expect(decodeCursor(cursor, otherKeys)).toBeNull();
+    expect(getPagination({ cursor: 'not-a-cursor' }, keys)).toBeNull();
+  });
+
+  it('should reject cursors whose values do not match the type of their key', () => {
+    const forge = (v: unknown[]) =>
+      Buffer.from(JSON.stringify({ k: 'featured:desc,createdAt:desc,id:desc', v })).toString('base64url');
+
+    expect(decodeCursor(forge([true, { $date: '2025-05-01T10:00:00Z' }, 'post-1']), keys)).not.toBeNull();
+    expect(decodeCursor(forge([true, '2025-05-01', 'post-1']), keys)).toBeNull();
+    expect(decodeCursor(forge([true, { $date: 'yesterday' }, 'post-1']), keys)).toBeNull();
+    expect(decodeCursor(forge(['yes', { $date: '2025-05-01T10:00:00Z' }, 'post-1']), keys)).toBeNull();
+    expect(decodeCursor(forge([true, { $date: '2025-05-01T10:00:00Z' }, 7]), keys)).toBeNull();
+    expect(getPagination({ cursor: forge([true, 'now', 'post-1']) }, keys)).toBeNull();
+  });
+
+  it('should cap the limit and fall back to the default', () => {
+    expect(parseLimit('1000')).toBe(100);
+    expect(parseLimit('-5')).toBe(10);
+    expect(parseLimit(undefined, 20)).toBe(20);
+  });
+
+  it('should select rows after the cursor in sort order', () => {
+    const createdAt = new Date('2025-05-01T10:00:00Z');
+    const pagination = getPagination({ cursor: encodeCursor({ featured: true, createdAt, id: 'p5' }, keys) }, keys)!;
+
+    expect(paginationWhere(pagination)).toEqual({
+      OR: [
+        { AND: [{ featured: false }] },
+        { AND: [{ featured: true }, { createdAt: { lt: createdAt } }] },
+        { AND: [{ featured: true }, { createdAt }, { id: { lt: 'p5' } }] },
+      ],
+    });
+  });
+
+  it('should only issue a next cursor when another page follows', () => {
+    const pagination = getPagination({ limit: '2' }, keys)!;
+    const rows = [
+      { featured: false, createdAt: new Date('2025-05-03'), id: 'c' },
+      { featured: false, createdAt: new Date('2025-05-02'), id: 'b' },
+      { featured: false, createdAt: new Date('2025-05-01'), id: 'a' },
+    ];
+
+    const full = takePage(rows, pagination);
+    expect(full.items).toHaveLength(2);
+    expect(decodeCursor(full.nextCursor!, keys)).toEqual([false, rows[1].createdAt, 'b']);
+
+    expect(takePage(rows.slice(0, 2), pagination).nextCursor).toBeNull();
+  });
+});
@@ -1,6 +1,8 @@
 import { prisma } from './setup';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
+import { publishDuePosts, purgeTrashedPosts } from '../utils/scheduler';
+import { recordRevision } from '../utils/revisions';
 
 
 describe('Blog Post Routes', () => {
@@ -15,10 +17,12 @@ describe('Blog Post Routes', () => {
         email: 'test@example.com',
         username: 'testuser',
         password: hashedPassword,
+        emailVerifiedAt: new Date(),
       },
     });
     userId = user.id;
-    authToken = jwt.sign({ userId: user.id }, process.env.JWT_SECRET!);
+    const session = await prisma.session.create({ data: { userId: user.id } });
+    authToken = jwt.sign({ userId: user.id, sid: session.id }, process.env.JWT_SECRET!);
   });
 
   describe('GET /api/posts', () => {
@@ -306,6 +310,7 @@ describe('Blog Post Routes', () => {
           email: 'author2@example.com',
           username: 'author2',
           password: await bcrypt.hash('Password123', 12),
+          emailVerifiedAt: new Date(),
         },
       });
 
@@ -409,6 +414,7 @@ describe('Blog Post Routes', () => {
           email: 'author3@example.com',
           username: 'author3',
           password: await bcrypt.hash('Password123', 12),
+          emailVerifiedAt: new Date(),
         },
       });
 
@@ -944,7 +950,7 @@ describe('Blog Post Routes', () => {
       expect(data).toHaveProperty('error', 'Validation failed');
     });
 
-    it('should return error if post with same title already exists', async () => {
+    it('should add a numeric suffix if a post with the same title already exists', async () => {
       // First create a post
       await prisma.post.create({
         data: {
@@ -972,8 +978,8 @@ describe('Blog Post Routes', () => {
 
       const data: any = await response.json();
 
-      expect(response.status).toBe(400);
-      expect(data).toHaveProperty('error', 'A post with this title already exists');
+      expect(response.status).toBe(201);
+      expect(data.post.slug).toBe('existing-post-2');
     });
 
     it('should create post with SEO metadata', async () => {
@@ -1129,7 +1135,12 @@ describe('Blog Post Routes', () => {
       expect(data.post.ogImage).toBe(postData.ogImage);
     });
 
-    it('should create a post with featured status', async () => {
+    it('should create a post with featured status when user is an editor', async () => {
+      await prisma.user.update({
+        where: { id: userId },
+        data: { role: 'editor' },
+      });
+
       const postData = {
         title: 'Featured Test Post',
         content: '# Featured Test Content',
@@ -1162,6 +1173,27 @@ describe('Blog Post Routes', () => {
       expect(post?.featured).toBe(true);
     });
 
+    it('should not allow authors to create featured posts', async () => {
+      const response = await fetch(`${baseUrl}/posts`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${authToken}`,
+        },
+        body: JSON.stringify({
+          title: 'Self Featured Post',
+          content: '# Content',
+          published: true,
+          featured: true,
+        }),
+      });
+
+      const data: any = await response.json();
+
+      expect(response.status).toBe(403);
+      expect(data).toHaveProperty('error', 'Not authorized to feature posts');
+    });
+
     it('should default featured to false when not provided', async () => {
       const postData = {
         title: 'Non Featured Post',
@@ -1341,6 +1373,7 @@ describe('Blog Post Routes', () => {
           email: 'other@example.com',
           username: 'otheruser',
           password: await bcrypt.hash('Password123', 12),
+          emailVerifiedAt: new Date(),
         },
       });
 
@@ -1718,13 +1751,13 @@ describe('Blog Post Routes', () => {
       const data: any = await response.json();
 
       expect(response.status).toBe(200);
-      expect(data).toHaveProperty('message', 'Post deleted successfully');
+      expect(data).toHaveProperty('message', 'Post moved to trash');
 
-      // Verify post was deleted from database
+      // Verify post was moved to the trash rather than removed
       const deletedPost = await prisma.post.findUnique({
         where: { id: post.id },
       });
-      expect(deletedPost).toBeNull();
+      expect(deletedPost?.deletedAt).not.toBeNull();
     });
 
     it('should return error when user does not own post', async () => {
@@ -1733,6 +1766,7 @@ describe('Blog Post Routes', () => {
           email: 'other@example.com',
           username: 'otheruser',
           password: await bcrypt.hash('Password123', 12),
+          emailVerifiedAt: new Date(),
         },
       });
 
@@ -1967,9 +2001,11 @@ describe('Blog Post Routes', () => {
           email: 'other@example.com',
           username: 'otheruser',
           password: await bcrypt.hash('Password123', 12),
+          emailVerifiedAt: new Date(),
         },
       });
-      const otherAuthToken = jwt.sign({ userId: otherUser.id }, process.env.JWT_SECRET!);
+      const otherSession = await prisma.session.create({ data: { userId: otherUser.id } });
+      const otherAuthToken = jwt.sign({ userId: otherUser.id, sid: otherSession.id }, process.env.JWT_SECRET!);
 
       const post = await prisma.post.create({
         data: {
@@ -3013,4 +3049,1407 @@ describe('Blog Post Routes', () => {
       expect(data.posts.length).toBe(5); // Should be limited to 5
     });
   });
+
+  describe('Role-based access control', () => {
+    let otherPostId: string;
+    let otherUserId: string;
+
+    const createUserWithRole = async (role: 'reader' | 'author' | 'editor' | 'admin') => {
+      const user = await prisma.user.create({
+        data: {
+          email: `${role}@example.com`,
+          username: `${role}user`,
+          password: await bcrypt.hash('Password123', 12),
+          emailVerifiedAt: new Date(),
+          role,
+        },
+      });
+      const session = await prisma.session.create({ data: { userId: user.id } });
+      return jwt.sign({ userId: user.id, sid: session.id }, process.env.JWT_SECRET!);
+    };
+
+    const updateOtherPost = (token: string, body: object) =>
+      fetch(`${baseUrl}/posts/${otherPostId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify(body),
+      });
+
+    beforeEach(async () => {
+      const otherUser = await prisma.user.create({
+        data: {
+          email: 'other@example.com',
+          username: 'otheruser',
+          password: await bcrypt.hash('Password123', 12),
+          emailVerifiedAt: new Date(),
+        },
+      });
+      otherUserId = otherUser.id;
+
+      const post = await prisma.post.create({
+        data: {
+          title: 'Other Author Post',
+          content: '# Content',
+          slug: 'other-author-post',
+          published: true,
+          authorId: otherUser.id,
+        },
+      });
+      otherPostId = post.id;
+    });
+
+    it('should include the role in the profile', async () => {
+      const response = await fetch(`${baseUrl}/auth/profile`, {
+        headers: {
+          'Authorization': `Bearer ${authToken}`,
+        },
+      });
+
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.user.role).toBe('author');
+    });
+
+    it('should not allow readers to create posts', async () => {
+      const readerToken = await createUserWithRole('reader');
+
+      const response = await fetch(`${baseUrl}/posts`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${readerToken}`,
+        },
+        body: JSON.stringify({ title: 'Reader Post', content: '# Content' }),
+      });
+
+      const data: any = await response.json();
+
+      expect(response.status).toBe(403);
+      expect(data).toHaveProperty('error', 'Insufficient permissions');
+    });
+
+    it('should allow readers to comment', async () => {
+      const readerToken = await createUserWithRole('reader');
+
+      const response = await fetch(`${baseUrl}/posts/${otherPostId}/comments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${readerToken}`,
+        },
+        body: JSON.stringify({ content: 'Nice post' }),
+      });
+
+      expect(response.status).toBe(201);
+    });
+
+    it('should allow editors to edit and unpublish any post', async () => {
+      const editorToken = await createUserWithRole('editor');
+
+      const response = await updateOtherPost(editorToken, {
+        title: 'Other Author Post',
+        content: '# Edited by an editor',
+        published: false,
+      });
+
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.post.published).toBe(false);
+      expect(data.post.content).toBe('# Edited by an editor');
+      expect(data.post.authorId).toBe(otherUserId);
+    });
+
+    it('should not allow authors to edit posts they do not own', async () => {
+      const response = await updateOtherPost(authToken, {
+        title: 'Other Author Post',
+        content: '# Hijacked',
+      });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should not allow authors to change featured status through updates', async () => {
+      const post = await prisma.post.create({
+        data: {
+          title: 'Own Post',
+          content: '# Content',
+          slug: 'own-post',
+          published: true,
+          authorId: userId,
+        },
+      });
+
+      const response = await fetch(`${baseUrl}/posts/${post.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${authToken}`,
+        },
+        body: JSON.stringify({ title: 'Own Post', content: '# Content', featured: true }),
+      });
+
+      const data: any = await response.json();
+
+      expect(response.status).toBe(403);
+      expect(data).toHaveProperty('error', 'Not authorized to feature posts');
+    });
+
+    it('should allow editors to view drafts of other authors', async () => {
+      const editorToken = await createUserWithRole('editor');
+      await prisma.post.update({
+        where: { id: otherPostId },
+        data: { published: false },
+      });
+
+      const response = await fetch(`${baseUrl}/posts/drafts/other-author-post`, {
+        headers: {
+          'Authorization': `Bearer ${editorToken}`,
+        },
+      });
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should only allow admins to delete posts of other authors', async () => {
+      const editorToken = await createUserWithRole('editor');
+      const adminToken = await createUserWithRole('admin');
+
+      const editorResponse = await fetch(`${baseUrl}/posts/${otherPostId}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${editorToken}`,
+        },
+      });
+      expect(editorResponse.status).toBe(403);
+
+      const adminResponse = await fetch(`${baseUrl}/posts/${otherPostId}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${adminToken}`,
+        },
+      });
+      expect(adminResponse.status).toBe(200);
+    });
+
+    describe('PUT /api/posts/:id/featured', () => {
+      const setFeatured = (token: string, postId: string, featured: any) =>
+        fetch(`${baseUrl}/posts/${postId}/featured`, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`,
+          },
+          body: JSON.stringify({ featured }),
+        });
+
+      it('should allow editors to toggle featured status', async () => {
+        const editorToken = await createUserWithRole('editor');
+
+        const featureResponse = await setFeatured(editorToken, otherPostId, true);
+        const featureData: any = await featureResponse.json();
+        expect(featureResponse.status).toBe(200);
+        expect(featureData.post.featured).toBe(true);
+
+        const unfeatureResponse = await setFeatured(editorToken, otherPostId, false);
+        const unfeatureData: any = await unfeatureResponse.json();
+        expect(unfeatureResponse.status).toBe(200);
+        expect(unfeatureData.post.featured).toBe(false);
+      });
+
+      it('should not allow authors to toggle featured status', async () => {
+        const response = await setFeatured(authToken, otherPostId, true);
+        expect(response.status).toBe(403);
+      });
+
+      it('should return 404 for non-existent post', async () => {
+        const adminToken = await createUserWithRole('admin');
+
+        const response = await setFeatured(adminToken, 'non-existent-id', true);
+        expect(response.status).toBe(404);
+      });
+
+      it('should validate the featured flag', async () => {
+        const editorToken = await createUserWithRole('editor');
+
+        const response = await setFeatured(editorToken, otherPostId, 'yes');
+        expect(response.status).toBe(400);
+      });
+    });
+  });
+
+  describe('Scheduled publishing', () => {
+    const inOneDay = () => new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+    const request = (method: string, path: string, body?: object) =>
+      fetch(`${baseUrl}${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${authToken}`,
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+    it('should create a scheduled post that is not public yet', async () => {
+      const publishAt = inOneDay();
+      const response = await request('POST', '/posts', {
+        title: 'Launch Announcement',
+        content: 'Coming soon',
+        publishAt,
+      });
+      const data: any = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.post.published).toBe(false);
+      expect(data.post.publishAt).toBe(publishAt);
+
+      const publicResponse = await fetch(`${baseUrl}/posts/${data.post.slug}`);
+      expect(publicResponse.status).toBe(404);
+    });
+
+    it('should reject a post that is both published and scheduled', async () => {
+      const response = await request('POST', '/posts', {
+        title: 'Conflicting Post',
+        content: 'Content',
+        published: true,
+        publishAt: inOneDay(),
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject a publish time in the past', async () => {
+      const response = await request('POST', '/posts', {
+        title: 'Past Post',
+        content: 'Content',
+        publishAt: new Date(Date.now() - 60 * 1000).toISOString(),
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should publish due posts when the scheduler runs', async () => {
+      const duePost = await prisma.post.create({
+        data: { title: 'Due', content: 'Content', slug: 'scheduler-due', publishAt: new Date(Date.now() - 1000), authorId: userId },
+      });
+      const futurePost = await prisma.post.create({
+        data: { title: 'Future', content: 'Content', slug: 'scheduler-future', publishAt: new Date(inOneDay()), authorId: userId },
+      });
+
+      const publishedCount = await publishDuePosts();
+      expect(publishedCount).toBe(1);
+
+      const [due, future] = await Promise.all([
+        prisma.post.findUnique({ where: { id: duePost.id } }),
+        prisma.post.findUnique({ where: { id: futurePost.id } }),
+      ]);
+      expect(due?.published).toBe(true);
+      expect(future?.published).toBe(false);
+    });
+
+    it('should show due posts publicly before the scheduler runs', async () => {
+      await prisma.post.create({
+        data: { title: 'Overdue', content: 'Content', slug: 'overdue-post', publishAt: new Date(Date.now() - 1000), authorId: userId },
+      });
+
+      const response = await fetch(`${baseUrl}/posts/overdue-post`);
+      expect(response.status).toBe(200);
+    });
+
+    it('should list scheduled posts with their planned time in my-posts', async () => {
+      const publishAt = new Date(inOneDay());
+      await prisma.post.createMany({
+        data: [
+          { title: 'Scheduled', content: 'Content', slug: 'my-scheduled', publishAt, authorId: userId },
+          { title: 'Draft', content: 'Content', slug: 'my-draft', authorId: userId },
+        ],
+      });
+
+      const response = await request('GET', '/posts/my-posts?status=scheduled');
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.posts).toHaveLength(1);
+      expect(data.posts[0].status).toBe('scheduled');
+      expect(data.posts[0].publishAt).toBe(publishAt.toISOString());
+    });
+
+    it('should reschedule and cancel a scheduled post', async () => {
+      const post = await prisma.post.create({
+        data: { title: 'Movable', content: 'Content', slug: 'movable-post', publishAt: new Date(inOneDay()), authorId: userId },
+      });
+
+      const newPublishAt = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString();
+      const rescheduleResponse = await request('PUT', `/posts/${post.id}/schedule`, { publishAt: newPublishAt });
+      const rescheduleData: any = await rescheduleResponse.json();
+
+      expect(rescheduleResponse.status).toBe(200);
+      expect(rescheduleData.post.publishAt).toBe(newPublishAt);
+      expect(rescheduleData.post.status).toBe('scheduled');
+
+      const cancelResponse = await request('DELETE', `/posts/${post.id}/schedule`);
+      const cancelData: any = await cancelResponse.json();
+
+      expect(cancelResponse.status).toBe(200);
+      expect(cancelData.post.publishAt).toBeNull();
+      expect(cancelData.post.status).toBe('draft');
+
+      const secondCancelResponse = await request('DELETE', `/posts/${post.id}/schedule`);
+      expect(secondCancelResponse.status).toBe(400);
+    });
+
+    it('should not schedule a published post', async () => {
+      const post = await prisma.post.create({
+        data: { title: 'Live', content: 'Content', slug: 'live-post', published: true, authorId: userId },
+      });
+
+      const response = await request('PUT', `/posts/${post.id}/schedule`, { publishAt: inOneDay() });
+      const data: any = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data).toHaveProperty('error', 'Post is already published');
+    });
+  });
+
+  describe('Post revisions', () => {
+    const request = (method: string, path: string, body?: object, token = authToken) =>
+      fetch(`${baseUrl}${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+    const createPost = async () => {
+      const response = await request('POST', '/posts', {
+        title: 'Versioned Post',
+        content: 'first line\nsecond line',
+      });
+      return ((await response.json()) as any).post;
+    };
+
+    it('should record a revision on create and on every update', async () => {
+      const post = await createPost();
+      await request('PUT', `/posts/${post.id}`, { title: 'Versioned Post', content: 'first line\nchanged line' });
+
+      const response = await request('GET', `/posts/${post.id}/revisions`);
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.revisions).toHaveLength(2);
+      expect(data.revisions[0].number).toBe(2);
+      expect(data.revisions[0].editor).toEqual({ id: userId, username: 'testuser' });
+      expect(data.revisions[0]).not.toHaveProperty('content');
+    });
+
+    it('should record a baseline for posts created before revisions existed', async () => {
+      const post = await prisma.post.create({
+        data: { title: 'Legacy Post', content: 'original', slug: 'legacy-post', authorId: userId },
+      });
+
+      await request('PUT', `/posts/${post.id}`, { title: 'Legacy Post', content: 'edited' });
+
+      const revisions = await prisma.postRevision.findMany({
+        where: { postId: post.id },
+        orderBy: { number: 'asc' },
+      });
+      expect(revisions.map((revision) => revision.content)).toEqual(['original', 'edited']);
+    });
+
+    it('should diff two revisions line by line', async () => {
+      const post = await createPost();
+      await request('PUT', `/posts/${post.id}`, { title: 'Renamed Post', content: 'first line\nchanged line' });
+      const revisions = await prisma.postRevision.findMany({
+        where: { postId: post.id },
+        orderBy: { number: 'asc' },
+      });
+
+      const response = await request('GET', `/posts/${post.id}/revisions/diff?from=${revisions[0].id}&to=${revisions[1].id}`);
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.fields.title).toEqual({ from: 'Versioned Post', to: 'Renamed Post' });
+      expect(data.stats).toEqual({ added: 1, removed: 1 });
+      expect(data.content).toContainEqual({ type: 'removed', line: 'second line', oldNumber: 2 });
+      expect(data.content).toContainEqual({ type: 'added', line: 'changed line', newNumber: 2 });
+    });
+
+    it('should return 404 when diffing revisions of another post', async () => {
+      const post = await createPost();
+      const otherPost = await prisma.post.create({
+        data: { title: 'Other', content: 'Other', slug: 'other-post', authorId: userId },
+      });
+      await recordRevision(otherPost.id, userId);
+      const [ownRevision, otherRevision] = await Promise.all([
+        prisma.postRevision.findFirst({ where: { postId: post.id } }),
+        prisma.postRevision.findFirst({ where: { postId: otherPost.id } }),
+      ]);
+
+      const response = await request('GET', `/posts/${post.id}/revisions/diff?from=${ownRevision!.id}&to=${otherRevision!.id}`);
+      expect(response.status).toBe(404);
+    });
+
+    it('should restore an earlier revision as a new revision', async () => {
+      const post = await createPost();
+      await request('PUT', `/posts/${post.id}`, { title: 'Renamed Post', content: 'rewritten' });
+      const firstRevision = await prisma.postRevision.findFirst({
+        where: { postId: post.id, number: 1 },
+      });
+
+      const response = await request('POST', `/posts/${post.id}/revisions/${firstRevision!.id}/restore`);
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.post.title).toBe('Versioned Post');
+      expect(data.post.content).toBe('first line\nsecond line');
+      expect(data.post.slug).toBe('versioned-post');
+
+      const revisionCount = await prisma.postRevision.count({ where: { postId: post.id } });
+      expect(revisionCount).toBe(3);
+    });
+
+    it('should record a revision for each of two overlapping edits', async () => {
+      const post = await createPost();
+
+      const responses = await Promise.all([
+        request('PUT', `/posts/${post.id}`, { title: 'Versioned Post', content: 'Editor A' }),
+        request('PUT', `/posts/${post.id}`, { title: 'Versioned Post', content: 'Editor B' }),
+      ]);
+
+      expect(responses.map((response) => response.status)).toEqual([200, 200]);
+      const revisions = await prisma.postRevision.findMany({
+        where: { postId: post.id },
+        orderBy: { number: 'asc' },
+      });
+      expect(revisions.map((revision) => revision.number)).toEqual([1, 2, 3]);
+    });
+
+    it('should check If-Match when restoring a revision', async () => {
+      const post = await createPost();
+      await request('PUT', `/posts/${post.id}`, { title: 'Versioned Post', content: 'rewritten' });
+      const firstRevision = await prisma.postRevision.findFirst({
+        where: { postId: post.id, number: 1 },
+      });
+
+      const response = await fetch(`${baseUrl}/posts/${post.id}/revisions/${firstRevision!.id}/restore`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${authToken}`, 'If-Match': '"1"' },
+      });
+
+      expect(response.status).toBe(412);
+      const stored = await prisma.post.findUnique({ where: { id: post.id } });
+      expect(stored!.content).toBe('rewritten');
+      expect(stored!.version).toBe(2);
+    });
+
+    it('should not expose revisions to other users', async () => {
+      const post = await createPost();
+      const otherUser = await prisma.user.create({
+        data: { email: 'other@example.com', username: 'otheruser', password: 'hashedpassword' },
+      });
+      const session = await prisma.session.create({ data: { userId: otherUser.id } });
+      const otherToken = jwt.sign({ userId: otherUser.id, sid: session.id }, process.env.JWT_SECRET!);
+
+      const response = await request('GET', `/posts/${post.id}/revisions`, undefined, otherToken);
+      expect(response.status).toBe(403);
+    });
+
+    it('should prune revisions beyond the retention limit', async () => {
+      const post = await prisma.post.create({
+        data: { title: 'Busy Post', content: 'v0', slug: 'busy-post', authorId: userId },
+      });
+      const previousRetention = process.env.POST_REVISION_RETENTION;
+      process.env.POST_REVISION_RETENTION = '3';
+
+      try {
+        for (let i = 1; i <= 5; i++) {
+          await prisma.post.update({ where: { id: post.id }, data: { content: `v${i}` } });
+          await recordRevision(post.id, userId);
+        }
+      } finally {
+        if (previousRetention === undefined) {
+          delete process.env.POST_REVISION_RETENTION;
+        } else {
+          process.env.POST_REVISION_RETENTION = previousRetention;
+        }
+      }
+
+      const revisions = await prisma.postRevision.findMany({
+        where: { postId: post.id },
+        orderBy: { number: 'asc' },
+      });
+      expect(revisions.map((revision) => revision.number)).toEqual([3, 4, 5]);
+    });
+  });
+
+  describe('Trash', () => {
+    const request = (method: string, path: string, token = authToken) =>
+      fetch(`${baseUrl}${path}`, {
+        method,
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+    const createTrashedPost = (slug: string, deletedAt = new Date()) =>
+      prisma.post.create({
+        data: { title: slug, content: 'Content', slug, published: true, authorId: userId, deletedAt },
+      });
+
+    it('should hide trashed posts from public queries', async () => {
+      const tag = await prisma.tag.create({ data: { name: 'trash-test' } });
+      const livePost = await prisma.post.create({
+        data: {
+          title: 'Live', content: 'Content', slug: 'trash-live', published: true, authorId: userId,
+          tags: { create: [{ tagId: tag.id }] },
+        },
+      });
+      await prisma.post.create({
+        data: {
+          title: 'Gone', content: 'Content', slug: 'trash-gone', published: true, authorId: userId, deletedAt: new Date(),
+          tags: { create: [{ tagId: tag.id }] },
+        },
+      });
+
+      const singleResponse = await fetch(`${baseUrl}/posts/trash-gone`);
+      expect(singleResponse.status).toBe(404);
+
+      const relatedResponse = await fetch(`${baseUrl}/posts/trash-live/related`);
+      const relatedData: any = await relatedResponse.json();
+      expect(relatedData.posts).toHaveLength(0);
+
+      const listResponse = await fetch(`${baseUrl}/users/testuser/posts`);
+      const listData: any = await listResponse.json();
+      expect(listData.posts.map((post: any) => post.id)).toEqual([livePost.id]);
+    });
+
+    it('should list trashed posts with their purge date', async () => {
+      const deletedAt = new Date();
+      await createTrashedPost('trashed-post', deletedAt);
+
+      const response = await request('GET', '/posts/trash');
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.posts).toHaveLength(1);
+      expect(data.posts[0].slug).toBe('trashed-post');
+      expect(new Date(data.posts[0].purgeAt).getTime()).toBe(deletedAt.getTime() + 30 * 24 * 60 * 60 * 1000);
+
+      const myPostsResponse = await request('GET', '/posts/my-posts?status=published');
+      const myPostsData: any = await myPostsResponse.json();
+      expect(myPostsData.posts).toHaveLength(0);
+    });
+
+    it('should page the trash with a capped limit and a cursor', async () => {
+      for (let day = 1; day <= 3; day++) {
+        await createTrashedPost(`trashed-${day}`, new Date(`2025-01-0${day}`));
+      }
+
+      const firstResponse = await request('GET', '/posts/trash?limit=2');
+      const first: any = await firstResponse.json();
+      const secondResponse = await request('GET', `/posts/trash?limit=2&cursor=${first.pagination.nextCursor}`);
+      const second: any = await secondResponse.json();
+      const cappedResponse = await request('GET', '/posts/trash?limit=1000');
+      const capped: any = await cappedResponse.json();
+
+      expect(first.posts.map((post: any) => post.slug)).toEqual(['trashed-3', 'trashed-2']);
+      expect(first.pagination).toMatchObject({ page: 1, limit: 2, total: 3 });
+      expect(second.posts.map((post: any) => post.slug)).toEqual(['trashed-1']);
+      expect(second.pagination.nextCursor).toBeNull();
+      expect(capped.pagination.limit).toBe(100);
+    });
+
+    it('should restore a trashed post with its likes', async () => {
+      const post = await createTrashedPost('restorable-post');
+      await prisma.postLike.create({ data: { userId, postId: post.id } });
+
+      const response = await request('POST', `/posts/${post.id}/restore`);
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.post.deletedAt).toBeNull();
+
+      const publicResponse = await fetch(`${baseUrl}/posts/restorable-post`);
+      const publicData: any = await publicResponse.json();
+      expect(publicResponse.status).toBe(200);
+      expect(publicData.post.likeCount).toBe(1);
+    });
+
+    it('should check If-Match when restoring from the trash', async () => {
+      const post = await createTrashedPost('guarded-restore');
+
+      const response = await fetch(`${baseUrl}/posts/${post.id}/restore`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${authToken}`, 'If-Match': '"7"' },
+      });
+
+      expect(response.status).toBe(412);
+      const stored = await prisma.post.findUnique({ where: { id: post.id } });
+      expect(stored!.deletedAt).not.toBeNull();
+    });
+
+    it('should return 404 when restoring a post that is not trashed', async () => {
+      const post = await prisma.post.create({
+        data: { title: 'Active', content: 'Content', slug: 'active-post', authorId: userId },
+      });
+
+      const response = await request('POST', `/posts/${post.id}/restore`);
+      expect(response.status).toBe(404);
+    });
+
+    it('should not allow interacting with trashed posts', async () => {
+      const post = await createTrashedPost('untouchable-post');
+
+      const likeResponse = await request('POST', `/posts/${post.id}/like`);
+      expect(likeResponse.status).toBe(404);
+
+      const deleteResponse = await request('DELETE', `/posts/${post.id}`);
+      expect(deleteResponse.status).toBe(404);
+    });
+
+    it('should purge posts trashed longer than the retention period', async () => {
+      const oldPost = await createTrashedPost('old-trash', new Date(Date.now() - 31 * 24 * 60 * 60 * 1000));
+      const recentPost = await createTrashedPost('recent-trash');
+
+      const purgedCount = await purgeTrashedPosts();
+      expect(purgedCount).toBe(1);
+
+      const [oldRow, recentRow] = await Promise.all([
+        prisma.post.findUnique({ where: { id: oldPost.id } }),
+        prisma.post.findUnique({ where: { id: recentPost.id } }),
+      ]);
+      expect(oldRow).toBeNull();
+      expect(recentRow).not.toBeNull();
+    });
+  });
+
+  describe('Rendered content', () => {
+    const createPost = async (content: string) => {
+      const response = await fetch(`${baseUrl}/posts`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${authToken}`,
+        },
+        body: JSON.stringify({ title: 'Rendered Post', content, published: true }),
+      });
+      return ((await response.json()) as any).post;
+    };
+
+    it('should only include rendered HTML when requested', async () => {
+      await createPost('# Intro\n\nHello');
+
+      const rawResponse = await fetch(`${baseUrl}/posts/rendered-post`);
+      const rawData: any = await rawResponse.json();
+      expect(rawData.post).not.toHaveProperty('contentHtml');
+
+      const response = await fetch(`${baseUrl}/posts/rendered-post?render=html`);
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.post.content).toBe('# Intro\n\nHello');
+      expect(data.post.contentHtml).toBe('<h1 id="intro">Intro</h1>\n<p>Hello</p>\n');
+      expect(data.post.toc).toEqual([{ level: 1, text: 'Intro', id: 'intro' }]);
+    });
+
+    it('should re-render after the post is edited', async () => {
+      const post = await createPost('First version');
+      await fetch(`${baseUrl}/posts/rendered-post?render=html`);
+
+      await fetch(`${baseUrl}/posts/${post.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${authToken}`,
+        },
+        body: JSON.stringify({ title: 'Rendered Post', content: 'Second version' }),
+      });
+
+      const response = await fetch(`${baseUrl}/posts/rendered-post?render=html`);
+      const data: any = await response.json();
+
+      expect(data.post.contentHtml).toBe('<p>Second version</p>\n');
+    });
+  });
+
+  describe('Content stats and excerpts', () => {
+    const createPost = async (body: Record<string, unknown>) => {
+      const response = await fetch(`${baseUrl}/posts`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${authToken}`,
+        },
+        body: JSON.stringify({ title: 'Stats Post', published: true, ...body }),
+      });
+      return ((await response.json()) as any).post;
+    };
+
+    const updatePost = async (id: string, body: Record<string, unknown>) => {
+      const response = await fetch(`${baseUrl}/posts/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${authToken}`,
+        },
+        body: JSON.stringify({ title: 'Stats Post', ...body }),
+      });
+      return ((await response.json()) as any).post;
+    };
+
+    it('should store word count, reading time and an automatic excerpt', async () => {
+      const post = await createPost({ content: '## Heading\n\nThree **plain** words' });
+
+      expect(post.wordCount).toBe(4);
+      expect(post.readingTimeMinutes).toBe(1);
+      expect(post.excerpt).toBe('Heading Three plain words');
+      expect(post.hasCustomExcerpt).toBe(false);
+    });
+
+    it('should keep a custom excerpt until it is cleared', async () => {
+      const post = await createPost({ content: 'Original body', excerpt: 'Hand-written summary' });
+      expect(post.excerpt).toBe('Hand-written summary');
+
+      const edited = await updatePost(post.id, { content: 'Updated body text' });
+      expect(edited.excerpt).toBe('Hand-written summary');
+      expect(edited.wordCount).toBe(3);
+
+      const cleared = await updatePost(post.id, { content: 'Updated body text', excerpt: null });
+      expect(cleared.excerpt).toBe('Updated body text');
+      expect(cleared.hasCustomExcerpt).toBe(false);
+    });
+
+    it('should leave content out of lists unless requested', async () => {
+      await createPost({ content: 'Listed body' });
+
+      const response = await fetch(`${baseUrl}/posts`);
+      const data: any = await response.json();
+      expect(data.posts[0]).not.toHaveProperty('content');
+      expect(data.posts[0].excerpt).toBe('Listed body');
+
+      const fullResponse = await fetch(`${baseUrl}/posts?includeContent=true`);
+      const fullData: any = await fullResponse.json();
+      expect(fullData.posts[0].content).toBe('Listed body');
+    });
+  });
+
+  describe('Slug history', () => {
+    const sendPost = async (method: string, path: string, body: Record<string, unknown>) => {
+      const response = await fetch(`${baseUrl}/posts${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${authToken}`,
+        },
+        body: JSON.stringify(body),
+      });
+      return { response, data: (await response.json()) as any };
+    };
+
+    it('should redirect an old slug to the current one after a rename', async () => {
+      const { data: created } = await sendPost('POST', '', { title: 'Original Slug Title', content: 'Body', published: true });
+      await sendPost('PUT', `/${created.post.id}`, { title: 'Renamed Slug Title', content: 'Body' });
+
+      const response = await fetch(`${baseUrl}/posts/original-slug-title?render=html`, { redirect: 'manual' });
+      const data: any = await response.json();
+
+      expect(response.status).toBe(301);
+      expect(response.headers.get('location')).toBe('/api/posts/renamed-slug-title?render=html');
+      expect(data.slug).toBe('renamed-slug-title');
+
+      const followed = await fetch(`${baseUrl}/posts/original-slug-title`);
+      const followedData: any = await followed.json();
+      expect(followed.status).toBe(200);
+      expect(followedData.post.id).toBe(created.post.id);
+    });
+
+    it('should accept a custom slug on create and update', async () => {
+      const { response, data } = await sendPost('POST', '', { title: 'Custom Slug Post', content: 'Body', slug: 'my-custom-slug', published: true });
+      expect(response.status).toBe(201);
+      expect(data.post.slug).toBe('my-custom-slug');
+
+      const { data: updated } = await sendPost('PUT', `/${data.post.id}`, { title: 'Custom Slug Post', content: 'Body', slug: 'another-custom-slug' });
+      expect(updated.post.slug).toBe('another-custom-slug');
+
+      const redirect = await fetch(`${baseUrl}/posts/my-custom-slug`, { redirect: 'manual' });
+      expect(redirect.status).toBe(301);
+    });
+
+    it('should reject invalid or taken custom slugs', async () => {
+      await sendPost('POST', '', { title: 'Slug Owner', content: 'Body', slug: 'taken-slug' });
+
+      const taken = await sendPost('POST', '', { title: 'Slug Thief', content: 'Body', slug: 'taken-slug' });
+      expect(taken.response.status).toBe(400);
+      expect(taken.data.error).toBe('A post with this slug already exists');
+
+      const invalid = await sendPost('POST', '', { title: 'Bad Slug', content: 'Body', slug: 'Not A Slug!' });
+      expect(invalid.response.status).toBe(400);
+    });
+
+    it('should reject all but one of concurrent claims on a custom slug', async () => {
+      const results = await Promise.all([1, 2, 3].map((index) =>
+        sendPost('POST', '', { title: `Racing Slug ${index}`, content: 'Body', slug: 'contested-slug' })
+      ));
+
+      expect(results.map(({ response }) => response.status).sort()).toEqual([201, 400, 400]);
+      results
+        .filter(({ response }) => response.status === 400)
+        .forEach(({ data }) => expect(data.error).toBe('A post with this slug already exists'));
+    });
+
+    it('should let another post claim an old slug', async () => {
+      const { data: first } = await sendPost('POST', '', { title: 'Claimable Slug', content: 'Body', published: true });
+      await sendPost('PUT', `/${first.post.id}`, { title: 'Moved Away', content: 'Body' });
+
+      const { response, data: second } = await sendPost('POST', '', { title: 'Claimable Slug', content: 'New body', published: true });
+      expect(response.status).toBe(201);
+
+      const lookup = await fetch(`${baseUrl}/posts/claimable-slug`, { redirect: 'manual' });
+      const lookupData: any = await lookup.json();
+      expect(lookup.status).toBe(200);
+      expect(lookupData.post.id).toBe(second.post.id);
+    });
+  });
+
+  describe('Slug allocation', () => {
+    const createPost = async (title: string) => {
+      const response = await fetch(`${baseUrl}/posts`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${authToken}`,
+        },
+        body: JSON.stringify({ title, content: 'Body' }),
+      });
+      return { response, data: (await response.json()) as any };
+    };
+
+    it('should give concurrent posts with the same title distinct slugs', async () => {
+      const results = await Promise.all([1, 2, 3, 4].map(() => createPost('Weekly Update')));
+
+      results.forEach(({ response }) => expect(response.status).toBe(201));
+      const slugs = results.map(({ data }) => data.post.slug);
+      expect(new Set(slugs).size).toBe(4);
+      expect(slugs).toContain('weekly-update');
+    });
+
+    it('should transliterate non-Latin titles', async () => {
+      const { response, data } = await createPost('Привет мир');
+
+      expect(response.status).toBe(201);
+      expect(data.post.slug).toBe('privet-mir');
+    });
+
+    it('should not hand out slugs used by fixed routes or empty slugs', async () => {
+      const { data: trash } = await createPost('Trash');
+      expect(trash.post.slug).toBe('trash-2');
+
+      const { data: emoji } = await createPost('🎉🎉');
+      expect(emoji.post.slug).toBe('post');
+    });
+
+    it('should keep the current slug when a renamed title maps to it', async () => {
+      await createPost('Release Notes');
+      const { data: second } = await createPost('Release Notes');
+      expect(second.post.slug).toBe('release-notes-2');
+
+      const response = await fetch(`${baseUrl}/posts/${second.post.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${authToken}`,
+        },
+        body: JSON.stringify({ title: 'Release notes!', content: 'Body' }),
+      });
+      const data: any = await response.json();
+
+      expect(data.post.slug).toBe('release-notes-2');
+    });
+
+    it('should ignore unrelated slugs and fall back to a random suffix once the numbered ones are taken', async () => {
+      const slugs = ['crowded', 'crowded-notes', ...Array.from({ length: 19 }, (_, index) => `crowded-${index + 2}`)];
+      await prisma.post.createMany({
+        data: slugs.map((slug) => ({ title: slug, content: 'Body', slug, authorId: userId })),
+      });
+
+      const { response, data } = await createPost('Crowded');
+
+      expect(response.status).toBe(201);
+      expect(data.post.slug).toMatch(/^crowded-[0-9a-f]{6}$/);
+    });
+  });
+
+  describe('Optimistic concurrency', () => {
+    const createPost = async (title: string) => {
+      const response = await fetch(`${baseUrl}/posts`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${authToken}`,
+        },
+        body: JSON.stringify({ title, content: 'Body', published: true }),
+      });
+      return ((await response.json()) as any).post;
+    };
+
+    const updatePost = (id: string, body: Record<string, unknown>, ifMatch?: string) =>
+      fetch(`${baseUrl}/posts/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${authToken}`,
+          ...(ifMatch ? { 'If-Match': ifMatch } : {}),
+        },
+        body: JSON.stringify(body),
+      });
+
+    it('should return an ETag from reads and a 304 when it still matches', async () => {
+      await createPost('ETag Read Post');
+
+      const response = await fetch(`${baseUrl}/posts/etag-read-post`);
+      const data: any = await response.json();
+      const etag = response.headers.get('etag')!;
+      expect(etag).toMatch(/^W\/"1-[0-9a-f]+"$/);
+      expect(data.post.version).toBe(1);
+
+      const reread = await fetch(`${baseUrl}/posts/etag-read-post`);
+      expect(reread.headers.get('etag')).toBe(etag);
+
+      const revalidated = await fetch(`${baseUrl}/posts/etag-read-post`, {
+        headers: { 'If-None-Match': etag },
+      });
+      expect(revalidated.status).toBe(304);
+    });
+
+    it('should change the read ETag when counts or the render variant change', async () => {
+      const post = await createPost('ETag Counts Post');
+
+      const first = await fetch(`${baseUrl}/posts/etag-counts-post`);
+      const etag = first.headers.get('etag')!;
+
+      const rendered = await fetch(`${baseUrl}/posts/etag-counts-post?render=html`, {
+        headers: { 'If-None-Match': etag },
+      });
+      expect(rendered.status).toBe(200);
+
+      await prisma.postLike.create({ data: { userId, postId: post.id } });
+      const liked = await fetch(`${baseUrl}/posts/etag-counts-post`, {
+        headers: { 'If-None-Match': rendered.headers.get('etag')! },
+      });
+      const likedData: any = await liked.json();
+      expect(liked.status).toBe(200);
+      expect(likedData.post.likeCount).toBe(1);
+    });
+
+    it('should accept a read ETag as If-Match', async () => {
+      const post = await createPost('ETag Round Trip Post');
+      const read = await fetch(`${baseUrl}/posts/etag-round-trip-post`);
+
+      const response = await updatePost(post.id, { title: 'ETag Round Trip Post', content: 'Edited' }, read.headers.get('etag')!);
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should apply an update whose If-Match is current and bump the version', async () => {
+      const post = await createPost('Versioned Post');
+
+      const response = await updatePost(post.id, { title: 'Versioned Post', content: 'Edited' }, '"1"');
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('etag')).toBe('"2"');
+      expect(data.post.version).toBe(2);
+    });
+
+    it('should reject a stale update with 412 and the current version', async () => {
+      const post = await createPost('Contested Post');
+      await updatePost(post.id, { title: 'Contested Post', content: 'First editor' }, '"1"');
+
+      const response = await updatePost(post.id, { title: 'Contested Post', content: 'Second editor' }, '"1"');
+      const data: any = await response.json();
+
+      expect(response.status).toBe(412);
+      expect(response.headers.get('etag')).toBe('"2"');
+      expect(data.version).toBe(2);
+
+      const stored = await prisma.post.findUnique({ where: { id: post.id } });
+      expect(stored!.content).toBe('First editor');
+    });
+
+    it('should let only one of two concurrent conditional updates through', async () => {
+      const post = await createPost('Raced Post');
+
+      const responses = await Promise.all([
+        updatePost(post.id, { title: 'Raced Post', content: 'Editor A' }, '"1"'),
+        updatePost(post.id, { title: 'Raced Post', content: 'Editor B' }, '"1"'),
+      ]);
+
+      expect(responses.map((response) => response.status).sort()).toEqual([200, 412]);
+      const stored = await prisma.post.findUnique({ where: { id: post.id } });
+      expect(stored!.version).toBe(2);
+    });
+
+    it('should check If-Match on delete', async () => {
+      const post = await createPost('Delete Guarded Post');
+      const headers = { 'Authorization': `Bearer ${authToken}` };
+
+      const stale = await fetch(`${baseUrl}/posts/${post.id}`, {
+        method: 'DELETE',
+        headers: { ...headers, 'If-Match': '"7"' },
+      });
+      expect(stale.status).toBe(412);
+
+      const current = await fetch(`${baseUrl}/posts/${post.id}`, {
+        method: 'DELETE',
+        headers: { ...headers, 'If-Match': '"1"' },
+      });
+      expect(current.status).toBe(200);
+    });
+
+    it('should still accept updates without If-Match', async () => {
+      const post = await createPost('Unconditional Post');
+
+      const response = await updatePost(post.id, { title: 'Unconditional Post', content: 'Edited' });
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should check If-Match when scheduling', async () => {
+      const post = await prisma.post.create({
+        data: { title: 'Guarded Schedule', content: 'Body', slug: 'guarded-schedule', authorId: userId, version: 3 },
+      });
+      const schedule = (ifMatch: string) =>
+        fetch(`${baseUrl}/posts/${post.id}/schedule`, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${authToken}`,
+            'If-Match': ifMatch,
+          },
+          body: JSON.stringify({ publishAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString() }),
+        });
+
+      const stale = await schedule('"2"');
+      expect(stale.status).toBe(412);
+
+      const current = await schedule('"3"');
+      expect(current.status).toBe(200);
+      expect(current.headers.get('etag')).toBe('"4"');
+    });
+  });
+
+  describe('PATCH /api/posts/:id - Partial update', () => {
+    let postId: string;
+
+    const patchPost = async (id: string, body: Record<string, unknown>) => {
+      const response = await fetch(`${baseUrl}/posts/${id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${authToken}`,
+        },
+        body: JSON.stringify(body),
+      });
+      return { response, data: (await response.json()) as any };
+    };
+
+    beforeEach(async () => {
+      const post = await prisma.post.create({
+        data: {
+          title: 'Patchable Post',
+          content: 'Original content',
+          slug: 'patchable-post',
+          authorId: userId,
+          categoryId: 'cat_tech',
+          ogImage: 'https://example.com/image.png',
+          tags: { create: [{ tagId: 'tag_tech' }, { tagId: 'tag_news' }] },
+        },
+      });
+      postId = post.id;
+    });
+
+    it('should change only the fields sent', async () => {
+      const { response, data } = await patchPost(postId, { published: true });
+
+      expect(response.status).toBe(200);
+      expect(data.post.published).toBe(true);
+      expect(data.post.title).toBe('Patchable Post');
+      expect(data.post.content).toBe('Original content');
+      expect(data.post.slug).toBe('patchable-post');
+      expect(data.post.category.slug).toBe('technology');
+      expect(data.post.tags.map((tag: any) => tag.id).sort()).toEqual(['tag_news', 'tag_tech']);
+    });
+
+    it('should clear optional fields set to null', async () => {
+      const { response, data } = await patchPost(postId, { categoryId: null, ogImage: null });
+
+      expect(response.status).toBe(200);
+      expect(data.post.categoryId).toBeNull();
+      expect(data.post.ogImage).toBeNull();
+    });
+
+    it('should add and remove individual tags', async () => {
+      const { response, data } = await patchPost(postId, { addTags: ['tag_guide'], removeTags: ['tag_news'] });
+
+      expect(response.status).toBe(200);
+      expect(data.post.tags.map((tag: any) => tag.id).sort()).toEqual(['tag_guide', 'tag_tech']);
+    });
+
+    it('should enforce the tag limit on the resulting set', async () => {
+      const { response, data } = await patchPost(postId, { addTags: ['tag_guide', 'tag_tips', 'tag_review', 'tag_design'] });
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('Maximum 5 tags allowed');
+    });
+
+    it('should count a tag removed twice only once against the limit', async () => {
+      const { response, data } = await patchPost(postId, {
+        addTags: ['tag_guide', 'tag_tips', 'tag_review', 'tag_design', 'tag_howto'],
+        removeTags: ['tag_news', 'tag_news'],
+      });
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('Maximum 5 tags allowed');
+      const tagCount = await prisma.postTag.count({ where: { postId } });
+      expect(tagCount).toBe(2);
+    });
+
+    it('should recompute stats and the slug when content and title change', async () => {
+      const { data } = await patchPost(postId, { title: 'Patched Title', content: 'Three new words' });
+
+      expect(data.post.slug).toBe('patched-title');
+      expect(data.post.wordCount).toBe(3);
+      expect(data.post.excerpt).toBe('Three new words');
+    });
+
+    it('should reject empty or invalid patches', async () => {
+      const empty = await patchPost(postId, {});
+      expect(empty.response.status).toBe(400);
+      expect(empty.data.error).toBe('No changes provided');
+
+      const invalid = await patchPost(postId, { title: '' });
+      expect(invalid.response.status).toBe(400);
+
+      const unknownTag = await patchPost(postId, { addTags: ['missing-tag'] });
+      expect(unknownTag.response.status).toBe(400);
+    });
+
+    it('should honour If-Match', async () => {
+      const response = await fetch(`${baseUrl}/posts/${postId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${authToken}`,
+          'If-Match': '"5"',
+        },
+        body: JSON.stringify({ published: true }),
+      });
+
+      expect(response.status).toBe(412);
+    });
+  });
+
+  describe('Cursor pagination', () => {
+    const createPosts = async (count: number, featuredEvery = 0) => {
+      for (let i = 0; i < count; i++) {
+        await prisma.post.create({
+          data: {
+            title: `Cursor Post ${i}`,
+            content: 'Body',
+            slug: `cursor-post-${i}`,
+            published: true,
+            featured: featuredEvery > 0 && i % featuredEvery === 0,
+            authorId: userId,
+            createdAt: new Date(Date.UTC(2025, 0, 1, 0, 0, i)),
+          },
+        });
+      }
+    };
+
+    const fetchAll = async (query: string) => {
+      const slugs: string[] = [];
+      let response = await fetch(`${baseUrl}/posts?${query}`);
+      let data: any = await response.json();
+      slugs.push(...data.posts.map((post: any) => post.slug));
+
+      while (data.pagination.nextCursor) {
+        response = await fetch(`${baseUrl}/posts?${query}&cursor=${encodeURIComponent(data.pagination.nextCursor)}`);
+        data = await response.json();
+        expect(response.status).toBe(200);
+        expect(data.pagination).not.toHaveProperty('total');
+        slugs.push(...data.posts.map((post: any) => post.slug));
+      }
+      return slugs;
+    };
+
+    it('should walk every post once, featured first', async () => {
+      await createPosts(7, 3);
+
+      const slugs = await fetchAll('limit=3');
+
+      expect(slugs).toEqual([
+        'cursor-post-6', 'cursor-post-3', 'cursor-post-0',
+        'cursor-post-5', 'cursor-post-4', 'cursor-post-2', 'cursor-post-1',
+      ]);
+    });
+
+    it('should follow the requested sort order', async () => {
+      await createPosts(5);
+
+      const slugs = await fetchAll('limit=2&sortBy=title&sortOrder=asc');
+
+      expect(slugs).toEqual(['cursor-post-0', 'cursor-post-1', 'cursor-post-2', 'cursor-post-3', 'cursor-post-4']);
+    });
+
+    it('should not repeat posts when new ones are inserted while paging', async () => {
+      await createPosts(4);
+
+      const first = await fetch(`${baseUrl}/posts?limit=2`);
+      const firstData: any = await first.json();
+
+      await prisma.post.create({
+        data: { title: 'Inserted', content: 'Body', slug: 'inserted-post', published: true, authorId: userId },
+      });
+
+      const second = await fetch(`${baseUrl}/posts?limit=2&cursor=${encodeURIComponent(firstData.pagination.nextCursor)}`);
+      const secondData: any = await second.json();
+
+      expect(firstData.posts.map((post: any) => post.slug)).toEqual(['cursor-post-3', 'cursor-post-2']);
+      expect(secondData.posts.map((post: any) => post.slug)).toEqual(['cursor-post-1', 'cursor-post-0']);
+    });
+
+    it('should reject invalid cursors and cap the limit', async () => {
+      const invalid = await fetch(`${baseUrl}/posts?cursor=garbage`);
+      expect(invalid.status).toBe(400);
+
+      const capped = await fetch(`${baseUrl}/posts?limit=5000`);
+      const cappedData: any = await capped.json();
+      expect(cappedData.pagination.limit).toBe(100);
+    });
+  });
+
+  describe('Editing and deleting comments', () => {
+    let postId: string;
+    let commenterId: string;
+    let commenterToken: string;
+
+    const createComment = (content: string, parentId?: string, authorId = commenterId) =>
+      prisma.comment.create({
+        data: { content, postId, userId: authorId, parentId },
+      });
+
+    const sendComment = (method: string, commentId: string, token: string, body?: object) =>
+      fetch(`${baseUrl}/posts/${postId}/comments/${commentId}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+    beforeEach(async () => {
+      const post = await prisma.post.create({
+        data: { title: 'Comment Thread', content: 'Body', slug: 'comment-thread', published: true, authorId: userId },
+      });
+      postId = post.id;
+
+      const commenter = await prisma.user.create({
+        data: { email: 'commenter@example.com', username: 'commenter', password: 'hashed', role: 'reader', emailVerifiedAt: new Date() },
+      });
+      commenterId = commenter.id;
+      const session = await prisma.session.create({ data: { userId: commenter.id } });
+      commenterToken = jwt.sign({ userId: commenter.id, sid: session.id }, process.env.JWT_SECRET!);
+    });
+
+    it('should let the commenter edit and record editedAt', async () => {
+      const comment = await createComment('Original');
+
+      const response = await sendComment('PATCH', comment.id, commenterToken, { content: 'Edited' });
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.comment.content).toBe('Edited');
+      expect(data.comment.editedAt).not.toBeNull();
+    });
+
+    it('should not let a commenter edit once their email is unverified', async () => {
+      const comment = await createComment('Original');
+      await prisma.user.update({ where: { id: commenterId }, data: { emailVerifiedAt: null } });
+
+      const response = await sendComment('PATCH', comment.id, commenterToken, { content: 'Edited' });
+      const data: any = await response.json();
+
+      expect(response.status).toBe(403);
+      expect(data).toHaveProperty('error', 'Email verification required');
+      expect((await prisma.comment.findUnique({ where: { id: comment.id } }))?.content).toBe('Original');
+    });
+
+    it('should not let other readers edit or delete a comment', async () => {
+      const comment = await createComment('Theirs');
+      const bystander = await prisma.user.create({
+        data: { email: 'bystander@example.com', username: 'bystander', password: 'hashed', role: 'reader', emailVerifiedAt: new Date() },
+      });
+      const session = await prisma.session.create({ data: { userId: bystander.id } });
+      const bystanderToken = jwt.sign({ userId: bystander.id, sid: session.id }, process.env.JWT_SECRET!);
+
+      const edit = await sendComment('PATCH', comment.id, bystanderToken, { content: 'Hijacked' });
+      const remove = await sendComment('DELETE', comment.id, bystanderToken);
+
+      expect(edit.status).toBe(403);
+      expect(remove.status).toBe(403);
+      expect((await prisma.comment.findUnique({ where: { id: comment.id } }))?.content).toBe('Theirs');
+    });
+
+    it('should let the post author delete comments on their post', async () => {
+      const comment = await createComment('Spam');
+
+      const response = await sendComment('DELETE', comment.id, authToken);
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.tombstoned).toBe(false);
+      expect(await prisma.comment.findUnique({ where: { id: comment.id } })).toBeNull();
+    });
+
+    it('should keep a deleted comment with replies as a tombstone', async () => {
+      const parent = await createComment('Parent');
+      await createComment('Reply', parent.id, userId);
+
+      const response = await sendComment('DELETE', parent.id, commenterToken);
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.tombstoned).toBe(true);
+
+      const list = await fetch(`${baseUrl}/posts/${postId}/comments`);
+      const listData: any = await list.json();
+
+      expect(listData.comments).toHaveLength(1);
+      expect(listData.comments[0]).toMatchObject({ content: '[deleted]', user: null, userId: null });
+      expect(listData.comments[0].deletedAt).not.toBeNull();
+      expect(listData.comments[0].replies[0].content).toBe('Reply');
+
+      const edit = await sendComment('PATCH', parent.id, commenterToken, { content: 'Back' });
+      expect(edit.status).toBe(400);
+    });
+
+    it('should remove a tombstone once its last reply is deleted', async () => {
+      const parent = await createComment('Parent');
+      const reply = await createComment('Reply', parent.id);
+
+      await sendComment('DELETE', parent.id, commenterToken);
+      const response = await sendComment('DELETE', reply.id, commenterToken);
+
+      expect(response.status).toBe(200);
+      expect(await prisma.comment.count({ where: { postId } })).toBe(0);
+    });
+  });
 });
@@ -0,0 +1,168 @@
+import { prisma } from './setup';
+import { buildSearchQuery } from '../utils/search';
+
+describe('Search API', () => {
+  const baseUrl = `http://localhost:${process.env.PORT}/api`;
+  let authorId: string;
+  let otherAuthorId: string;
+
+  const createPost = (data: {
+    title: string;
+    content: string;
+    slug: string;
+    published?: boolean;
+    authorId?: string;
+    createdAt?: Date;
+    tagIds?: string[];
+  }) =>
+    prisma.post.create({
+      data: {
+        title: data.title,
+        content: data.content,
+        slug: data.slug,
+        published: data.published ?? true,
+        authorId: data.authorId ?? authorId,
+        createdAt: data.createdAt,
+        tags: data.tagIds ? { create: data.tagIds.map((tagId) => ({ tagId })) } : undefined,
+      },
+    });
+
+  const search = async (params: string) => {
+    const response = await fetch(`${baseUrl}/search?${params}`);
+    return { response, data: (await response.json()) as any };
+  };
+
+  beforeEach(async () => {
+    const author = await prisma.user.create({
+      data: { email: 'searcher@example.com', username: 'searcher', password: 'hashed' },
+    });
+    const otherAuthor = await prisma.user.create({
+      data: { email: 'other@example.com', username: 'otherauthor', password: 'hashed' },
+    });
+    authorId = author.id;
+    otherAuthorId = otherAuthor.id;
+  });
+
+  describe('buildSearchQuery', () => {
+    it('should require every term', () => {
+      expect(buildSearchQuery('postgres indexes')).toBe(`'postgres' & 'indexes'`);
+    });
+
+    it('should support phrases and prefixes', () => {
+      expect(buildSearchQuery('"full text" postgr*')).toBe(`('full' <-> 'text') & 'postgr':*`);
+    });
+
+    it('should drop tsquery operators and punctuation', () => {
+      expect(buildSearchQuery(`it's | !secret`)).toBe(`('it' <-> 's') & 'secret'`);
+      expect(buildSearchQuery('*** !!')).toBeNull();
+    });
+  });
+
+  describe('GET /api/search', () => {
+    it('should rank title matches above content matches', async () => {
+      await createPost({ title: 'Cooking at home', content: 'A note on postgres near the end', slug: 'content-match' });
+      await createPost({ title: 'Postgres tips', content: 'Some advice', slug: 'title-match' });
+
+      const { response, data } = await search('q=postgres');
+
+      expect(response.status).toBe(200);
+      expect(data.posts.map((post: any) => post.slug)).toEqual(['title-match', 'content-match']);
+      expect(data.posts[0].rank).toBeGreaterThan(data.posts[1].rank);
+      expect(data.pagination).toEqual({ page: 1, limit: 10, total: 2, pages: 1 });
+    });
+
+    it('should match tag names', async () => {
+      await createPost({ title: 'Weekend project', content: 'Building a shelf', slug: 'tagged', tagIds: ['tag_design'] });
+
+      const { data } = await search('q=design');
+
+      expect(data.posts.map((post: any) => post.slug)).toEqual(['tagged']);
+    });
+
+    it('should pick up title edits and tag changes', async () => {
+      const post = await createPost({ title: 'Draft title', content: 'Body', slug: 'edited' });
+
+      await prisma.post.update({ where: { id: post.id }, data: { title: 'Kubernetes notes' } });
+      expect((await search('q=kubernetes')).data.posts).toHaveLength(1);
+
+      await prisma.postTag.create({ data: { postId: post.id, tagId: 'tag_review' } });
+      expect((await search('q=review')).data.posts).toHaveLength(1);
+
+      await prisma.postTag.deleteMany({ where: { postId: post.id } });
+      expect((await search('q=review')).data.posts).toHaveLength(0);
+    });
+
+    it('should support phrase and prefix queries', async () => {
+      await createPost({ title: 'Indexing', content: 'Full text search in PostgreSQL', slug: 'phrase' });
+      await createPost({ title: 'Other', content: 'Search the full archive by text', slug: 'no-phrase' });
+
+      const phrase = await search(`q=${encodeURIComponent('"full text search"')}`);
+      expect(phrase.data.posts.map((post: any) => post.slug)).toEqual(['phrase']);
+
+      const prefix = await search('q=postgr*');
+      expect(prefix.data.posts.map((post: any) => post.slug)).toEqual(['phrase']);
+    });
+
+    it('should return escaped, highlighted snippets', async () => {
+      await createPost({ title: 'Migrations guide', content: 'Use <script> tags carefully when running migrations', slug: 'snippet' });
+
+      const { data } = await search('q=migrations');
+
+      expect(data.posts[0].highlights.title).toBe('<mark>Migrations</mark> guide');
+      expect(data.posts[0].highlights.content).toContain('<mark>migrations</mark>');
+      expect(data.posts[0].highlights.content).toContain('&lt;script&gt;');
+      expect(data.posts[0]).not.toHaveProperty('content');
+    });
+
+    it('should only return public posts', async () => {
+      await createPost({ title: 'Secret rollout plan', content: 'Draft', slug: 'draft', published: false });
+      const trashed = await createPost({ title: 'Rollout retrospective', content: 'Old', slug: 'trashed' });
+      await prisma.post.update({ where: { id: trashed.id }, data: { deletedAt: new Date() } });
+
+      const { data } = await search('q=rollout');
+
+      expect(data.posts).toHaveLength(0);
+      expect(data.pagination.total).toBe(0);
+    });
+
+    it('should filter by author, tag and date range', async () => {
+      await createPost({ title: 'Caching basics', content: 'One', slug: 'old-post', createdAt: new Date('2025-01-10T00:00:00Z') });
+      await createPost({ title: 'Caching layers', content: 'Two', slug: 'tagged-post', tagIds: ['tag_guide'] });
+      await createPost({ title: 'Caching pitfalls', content: 'Three', slug: 'other-author', authorId: otherAuthorId });
+
+      const byAuthor = await search(`q=caching&authorId=${otherAuthorId}`);
+      expect(byAuthor.data.posts.map((post: any) => post.slug)).toEqual(['other-author']);
+
+      const byTag = await search('q=caching&tag=guide');
+      expect(byTag.data.posts.map((post: any) => post.slug)).toEqual(['tagged-post']);
+
+      const byDate = await search('q=caching&from=2025-01-01&to=2025-01-31');
+      expect(byDate.data.posts.map((post: any) => post.slug)).toEqual(['old-post']);
+    });
+
+    it('should paginate without repeating results', async () => {
+      const createdAt = new Date('2025-03-01T00:00:00Z');
+      for (let i = 0; i < 5; i++) {
+        await createPost({ title: 'Equal rank', content: 'Same words', slug: `page-${i}`, createdAt });
+      }
+
+      const first = await search('q=equal&limit=2&page=1');
+      const second = await search('q=equal&limit=2&page=2');
+      const third = await search('q=equal&limit=2&page=3');
+
+      const slugs = [...first.data.posts, ...second.data.posts, ...third.data.posts].map((post: any) => post.slug);
+      expect(new Set(slugs).size).toBe(5);
+      expect(first.data.pagination).toEqual({ page: 1, limit: 2, total: 5, pages: 3 });
+    });
+
+    it('should reject missing or invalid parameters', async () => {
+      expect((await search('q=')).response.status).toBe(400);
+      expect((await search('q=test&from=yesterday')).response.status).toBe(400);
+      expect((await search('q=test&from=2025-02-01&to=2025-01-01')).response.status).toBe(400);
+
+      const { response, data } = await search('q=%21%21%21');
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('Search query must contain at least one word');
+    });
+  });
+});
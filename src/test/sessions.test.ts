@@ -0,0 +1,153 @@
+import { prisma } from './setup';
+import bcrypt from 'bcryptjs';
+
+describe('Session Routes', () => {
+  const baseUrl = `http://localhost:${process.env.PORT}/api`;
+
+  const login = async (userAgent: string, email: string = 'test@example.com') => {
+    const response = await fetch(`${baseUrl}/auth/login`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': userAgent,
+      },
+      body: JSON.stringify({ email, password: 'Password123' }),
+    });
+
+    return (await response.json()) as any;
+  };
+
+  const listSessions = async (token: string) => {
+    const response = await fetch(`${baseUrl}/auth/sessions`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    return { response, data: (await response.json()) as any };
+  };
+
+  beforeEach(async () => {
+    await prisma.user.create({
+      data: {
+        email: 'test@example.com',
+        username: 'testuser',
+        password: await bcrypt.hash('Password123', 12),
+      },
+    });
+  });
+
+  describe('GET /api/auth/sessions', () => {
+    it('should list active sessions with device details', async () => {
+      const { token } = await login('Laptop Browser');
+      await login('Phone App');
+
+      const { response, data } = await listSessions(token);
+
+      expect(response.status).toBe(200);
+      expect(data.sessions).toHaveLength(2);
+
+      const currentSession = data.sessions.find((session: any) => session.current);
+      expect(currentSession.userAgent).toBe('Laptop Browser');
+      expect(currentSession).toHaveProperty('ipAddress');
+      expect(currentSession).toHaveProperty('lastSeenAt');
+      expect(data.sessions.some((session: any) => session.userAgent === 'Phone App' && !session.current)).toBe(true);
+    });
+
+    it('should not list revoked sessions', async () => {
+      const { token } = await login('Laptop Browser');
+      const { refreshToken } = await login('Phone App');
+
+      await fetch(`${baseUrl}/auth/logout`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken }),
+      });
+
+      const { data } = await listSessions(token);
+      expect(data.sessions).toHaveLength(1);
+    });
+  });
+
+  describe('DELETE /api/auth/sessions/:id', () => {
+    it('should sign out another session', async () => {
+      const { token } = await login('Laptop Browser');
+      const { token: phoneToken } = await login('Phone App');
+
+      const { data } = await listSessions(token);
+      const phoneSession = data.sessions.find((session: any) => !session.current);
+
+      const response = await fetch(`${baseUrl}/auth/sessions/${phoneSession.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      expect(response.status).toBe(200);
+
+      const profileResponse = await fetch(`${baseUrl}/auth/profile`, {
+        headers: {
+          'Authorization': `Bearer ${phoneToken}`,
+        },
+      });
+      expect(profileResponse.status).toBe(401);
+    });
+
+    it('should not sign out sessions of other users', async () => {
+      await prisma.user.create({
+        data: {
+          email: 'other@example.com',
+          username: 'otheruser',
+          password: await bcrypt.hash('Password123', 12),
+        },
+      });
+      const { token } = await login('Laptop Browser');
+      const { token: otherToken } = await login('Other Browser', 'other@example.com');
+
+      const { data } = await listSessions(otherToken);
+
+      const response = await fetch(`${baseUrl}/auth/sessions/${data.sessions[0].id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/auth/sessions/revoke-others', () => {
+    it('should sign out everywhere except the current session', async () => {
+      const { token } = await login('Laptop Browser');
+      const { token: phoneToken } = await login('Phone App');
+      const { token: tabletToken } = await login('Tablet App');
+
+      const response = await fetch(`${baseUrl}/auth/sessions/revoke-others`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.revokedCount).toBe(2);
+
+      for (const revokedToken of [phoneToken, tabletToken]) {
+        const profileResponse = await fetch(`${baseUrl}/auth/profile`, {
+          headers: {
+            'Authorization': `Bearer ${revokedToken}`,
+          },
+        });
+        expect(profileResponse.status).toBe(401);
+      }
+
+      const { response: listResponse, data: listData } = await listSessions(token);
+      expect(listResponse.status).toBe(200);
+      expect(listData.sessions).toHaveLength(1);
+      expect(listData.sessions[0].current).toBe(true);
+    });
+  });
+});
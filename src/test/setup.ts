@@ -1,7 +1,24 @@
 import { PrismaClient } from '@prisma/client';
+import { MailMessage } from '../utils/mailer';
 
 let prisma: PrismaClient;
 
+const mailUrl = `http://localhost:${process.env.PORT}/__test__/mail`;
+
+// Returns messages kept by the test server's in-memory mail transport for a recipient, oldest first
+const getSentMail = async (to: string): Promise<MailMessage[]> => {
+  const response = await fetch(`${mailUrl}?to=${encodeURIComponent(to)}`);
+  return (await response.json()) as MailMessage[];
+};
+
+// Fetches a URL and parses the JSON body, for tests that assert on both. T is the body
+// shape the test expects; it is not checked at runtime.
+const fetchJson = async <T = unknown>(url: string, init?: Parameters<typeof fetch>[1]) => {
+  const response = await fetch(url, init);
+  const data = (await response.json()) as T;
+  return { response, data };
+};
+
 beforeAll(async () => {
   prisma = new PrismaClient();
   await prisma.$connect();
@@ -15,11 +32,13 @@ afterAll(async () => {
 
 beforeEach(async () => {
   if (prisma) {
+    await prisma.loginAttempt.deleteMany();
     await prisma.postLike.deleteMany();
     await prisma.follow.deleteMany();
     await prisma.post.deleteMany();
     await prisma.user.deleteMany();
   }
+  await fetch(mailUrl, { method: 'DELETE' });
 });
 
-export { prisma };
+export { prisma, getSentMail, fetchJson };
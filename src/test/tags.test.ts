@@ -1,4 +1,6 @@
 import { prisma } from './setup';
+import jwt from 'jsonwebtoken';
+import bcrypt from 'bcryptjs';
 
 describe('Tags API', () => {
   const baseUrl = `http://localhost:${process.env.PORT}/api`;
@@ -56,5 +58,90 @@ describe('Tags API', () => {
       expect(dataEmpty.tags.length).toBe(dataAll.tags.length);
     });
   });
-});
 
+  describe('Tag management', () => {
+    let editorToken: string;
+    let authorToken: string;
+
+    const sendTag = (method: string, path: string, token: string, body?: object) =>
+      fetch(`${baseUrl}/tags${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+    beforeEach(async () => {
+      const hashedPassword = await bcrypt.hash('Password123', 12);
+
+      const editor = await prisma.user.create({
+        data: {
+          email: 'editor@example.com',
+          username: 'editoruser',
+          password: hashedPassword,
+          role: 'editor',
+        },
+      });
+      const editorSession = await prisma.session.create({ data: { userId: editor.id } });
+      editorToken = jwt.sign({ userId: editor.id, sid: editorSession.id }, process.env.JWT_SECRET!);
+
+      const author = await prisma.user.create({
+        data: {
+          email: 'author@example.com',
+          username: 'authoruser',
+          password: hashedPassword,
+        },
+      });
+      const authorSession = await prisma.session.create({ data: { userId: author.id } });
+      authorToken = jwt.sign({ userId: author.id, sid: authorSession.id }, process.env.JWT_SECRET!);
+    });
+
+    afterEach(async () => {
+      // Keep only the predefined tags seeded by the migration
+      await prisma.tag.deleteMany({
+        where: { NOT: { id: { startsWith: 'tag_' } } },
+      });
+    });
+
+    it('should allow editors to create, rename and delete a tag', async () => {
+      const createResponse = await sendTag('POST', '', editorToken, { name: 'TypeScript' });
+      const createData: any = await createResponse.json();
+      expect(createResponse.status).toBe(201);
+      expect(createData.tag.name).toBe('typescript');
+
+      const updateResponse = await sendTag('PUT', `/${createData.tag.id}`, editorToken, { name: 'ts' });
+      const updateData: any = await updateResponse.json();
+      expect(updateResponse.status).toBe(200);
+      expect(updateData.tag.name).toBe('ts');
+
+      const deleteResponse = await sendTag('DELETE', `/${createData.tag.id}`, editorToken);
+      expect(deleteResponse.status).toBe(200);
+    });
+
+    it('should reject duplicate tags', async () => {
+      const response = await sendTag('POST', '', editorToken, { name: 'technology' });
+      const data: any = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data).toHaveProperty('error', 'Tag already exists');
+    });
+
+    it('should not allow authors to manage tags', async () => {
+      const createResponse = await sendTag('POST', '', authorToken, { name: 'typescript' });
+      expect(createResponse.status).toBe(403);
+
+      const updateResponse = await sendTag('PUT', '/tag_tech', authorToken, { name: 'tech' });
+      expect(updateResponse.status).toBe(403);
+
+      const deleteResponse = await sendTag('DELETE', '/tag_tech', authorToken);
+      expect(deleteResponse.status).toBe(403);
+    });
+
+    it('should return 404 when deleting a non-existent tag', async () => {
+      const response = await sendTag('DELETE', '/non-existent-id', editorToken);
+      expect(response.status).toBe(404);
+    });
+  });
+});
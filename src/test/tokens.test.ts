@@ -0,0 +1,210 @@
+import { prisma } from './setup';
+import jwt from 'jsonwebtoken';
+import bcrypt from 'bcryptjs';
+
+describe('Personal Access Token Routes', () => {
+  const baseUrl = `http://localhost:${process.env.PORT}/api`;
+  let authToken: string;
+  let userId: string;
+
+  const createToken = async (body: object) => {
+    const response = await fetch(`${baseUrl}/auth/tokens`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${authToken}`,
+      },
+      body: JSON.stringify(body),
+    });
+
+    return { response, data: (await response.json()) as any };
+  };
+
+  const createPost = (token: string) =>
+    fetch(`${baseUrl}/posts`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ title: 'Scripted Post', content: '# Published from a script' }),
+    });
+
+  beforeEach(async () => {
+    const user = await prisma.user.create({
+      data: {
+        email: 'test@example.com',
+        username: 'testuser',
+        password: await bcrypt.hash('Password123', 12),
+        emailVerifiedAt: new Date(),
+      },
+    });
+    userId = user.id;
+    const session = await prisma.session.create({ data: { userId: user.id } });
+    authToken = jwt.sign({ userId: user.id, sid: session.id }, process.env.JWT_SECRET!);
+  });
+
+  describe('POST /api/auth/tokens', () => {
+    it('should create a token and return the secret once', async () => {
+      const { response, data } = await createToken({ name: 'Publishing script', scopes: ['posts:write'] });
+
+      expect(response.status).toBe(201);
+      expect(data.secret).toMatch(/^psk_/);
+      expect(data.token.name).toBe('Publishing script');
+      expect(data.token.scopes).toEqual(['posts:write']);
+      expect(data.token).not.toHaveProperty('tokenHash');
+
+      const storedToken = await prisma.personalAccessToken.findUnique({ where: { id: data.token.id } });
+      expect(storedToken?.tokenHash).not.toBe(data.secret);
+      expect(data.secret.startsWith(storedToken!.prefix)).toBe(true);
+    });
+
+    it('should reject unknown scopes', async () => {
+      const { response } = await createToken({ name: 'Bad scopes', scopes: ['admin:everything'] });
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject an expiry in the past', async () => {
+      const { response } = await createToken({
+        name: 'Expired',
+        scopes: ['posts:read'],
+        expiresAt: new Date(Date.now() - 60 * 1000).toISOString(),
+      });
+      expect(response.status).toBe(400);
+    });
+
+    it('should not allow a personal access token to create more tokens', async () => {
+      const { data } = await createToken({ name: 'Script', scopes: ['posts:write'] });
+
+      const response = await fetch(`${baseUrl}/auth/tokens`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${data.secret}`,
+        },
+        body: JSON.stringify({ name: 'Escalated', scopes: ['posts:write'] }),
+      });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('GET /api/auth/tokens', () => {
+    it('should list active tokens without secrets', async () => {
+      await createToken({ name: 'First', scopes: ['posts:read'] });
+      await createToken({ name: 'Second', scopes: ['comments:write'] });
+
+      const response = await fetch(`${baseUrl}/auth/tokens`, {
+        headers: {
+          'Authorization': `Bearer ${authToken}`,
+        },
+      });
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.tokens).toHaveLength(2);
+      expect(data.tokens[0]).not.toHaveProperty('secret');
+      expect(data.tokens[0]).not.toHaveProperty('tokenHash');
+      expect(data.tokens[0]).toHaveProperty('lastUsedAt', null);
+    });
+  });
+
+  describe('DELETE /api/auth/tokens/:id', () => {
+    it('should revoke a token so it can no longer be used', async () => {
+      const { data } = await createToken({ name: 'Script', scopes: ['posts:write'] });
+
+      const response = await fetch(`${baseUrl}/auth/tokens/${data.token.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${authToken}`,
+        },
+      });
+      expect(response.status).toBe(200);
+
+      const postResponse = await createPost(data.secret);
+      expect(postResponse.status).toBe(401);
+    });
+
+    it('should not revoke tokens of other users', async () => {
+      const otherUser = await prisma.user.create({
+        data: {
+          email: 'other@example.com',
+          username: 'otheruser',
+          password: await bcrypt.hash('Password123', 12),
+        },
+      });
+      const otherToken = await prisma.personalAccessToken.create({
+        data: {
+          userId: otherUser.id,
+          name: 'Other',
+          tokenHash: 'other-hash',
+          prefix: 'psk_other',
+          scopes: ['posts:read'],
+        },
+      });
+
+      const response = await fetch(`${baseUrl}/auth/tokens/${otherToken.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${authToken}`,
+        },
+      });
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('Authenticating with a personal access token', () => {
+    it('should allow actions covered by the token scopes and record lastUsedAt', async () => {
+      const { data } = await createToken({ name: 'Script', scopes: ['posts:write'] });
+
+      const response = await createPost(data.secret);
+      const postData: any = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(postData.post.authorId).toBe(userId);
+
+      const storedToken = await prisma.personalAccessToken.findUnique({ where: { id: data.token.id } });
+      expect(storedToken?.lastUsedAt).toBeTruthy();
+    });
+
+    it('should reject actions outside the token scopes', async () => {
+      const { data } = await createToken({ name: 'Reader', scopes: ['posts:read'] });
+
+      const response = await createPost(data.secret);
+      const responseData: any = await response.json();
+
+      expect(response.status).toBe(403);
+      expect(responseData).toHaveProperty('error', 'Insufficient token scope');
+
+      const myPostsResponse = await fetch(`${baseUrl}/posts/my-posts`, {
+        headers: {
+          'Authorization': `Bearer ${data.secret}`,
+        },
+      });
+      expect(myPostsResponse.status).toBe(200);
+    });
+
+    it('should reject tokens on endpoints that do not accept them', async () => {
+      const { data } = await createToken({ name: 'Script', scopes: ['posts:read', 'posts:write', 'comments:write'] });
+
+      const response = await fetch(`${baseUrl}/auth/profile`, {
+        headers: {
+          'Authorization': `Bearer ${data.secret}`,
+        },
+      });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should reject expired tokens', async () => {
+      const { data } = await createToken({ name: 'Script', scopes: ['posts:write'] });
+      await prisma.personalAccessToken.update({
+        where: { id: data.token.id },
+        data: { expiresAt: new Date(Date.now() - 1000) },
+      });
+
+      const response = await createPost(data.secret);
+      expect(response.status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { base32Encode, base32Decode, generateTotp, verifyTotp, getTimeStep, buildOtpAuthUri } from '../utils/totp';
+
+describe('TOTP Utilities', () => {
+  // Secret from the RFC 6238 reference test vectors
+  const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+  describe('base32', () => {
+    it('should round-trip a buffer', () => {
+      expect(secret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+      expect(base32Decode(secret).toString()).toBe('12345678901234567890');
+    });
+
+    it('should reject invalid characters', () => {
+      expect(() => base32Decode('not-base32!')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('generateTotp', () => {
+    it('should match the RFC 6238 SHA1 test vectors', () => {
+      expect(generateTotp(secret, 59 * 1000, 8)).toBe('94287082');
+      expect(generateTotp(secret, 1111111109 * 1000, 8)).toBe('07081804');
+      expect(generateTotp(secret, 1234567890 * 1000, 8)).toBe('89005924');
+      expect(generateTotp(secret, 20000000000 * 1000, 8)).toBe('65353130');
+    });
+
+    it('should produce 6 digit codes by default', () => {
+      expect(generateTotp(secret, 59 * 1000)).toBe('287082');
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1700000000 * 1000;
+
+    it('should return the time step for a current code', () => {
+      const code = generateTotp(secret, now);
+      expect(verifyTotp(secret, code, now)).toBe(getTimeStep(now));
+    });
+
+    it('should accept codes from adjacent time steps', () => {
+      const previousCode = generateTotp(secret, now - 30 * 1000);
+      expect(verifyTotp(secret, previousCode, now)).toBe(getTimeStep(now) - 1);
+    });
+
+    it('should reject codes outside the window', () => {
+      const oldCode = generateTotp(secret, now - 5 * 60 * 1000);
+      expect(verifyTotp(secret, oldCode, now)).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(secret, 'abcdef', now)).toBeNull();
+      expect(verifyTotp(secret, '12345', now)).toBeNull();
+    });
+  });
+
+  describe('buildOtpAuthUri', () => {
+    it('should build a provisioning URI', () => {
+      const uri = buildOtpAuthUri(secret, 'test@example.com', 'Post Stack');
+
+      expect(uri.startsWith('otpauth://totp/Post%20Stack%3Atest%40example.com?')).toBe(true);
+      expect(uri).toContain(`secret=${secret}`);
+      expect(uri).toContain('issuer=Post+Stack');
+    });
+  });
+});
@@ -21,7 +21,8 @@ describe('User Followers Routes', () => {
       },
     });
     userId = user.id;
-    authToken = jwt.sign({ userId: user.id }, process.env.JWT_SECRET!);
+    const session = await prisma.session.create({ data: { userId: user.id } });
+    authToken = jwt.sign({ userId: user.id, sid: session.id }, process.env.JWT_SECRET!);
 
     const otherUser = await prisma.user.create({
       data: {
@@ -31,7 +32,8 @@ describe('User Followers Routes', () => {
       },
     });
     otherUserId = otherUser.id;
-    otherUserToken = jwt.sign({ userId: otherUser.id }, process.env.JWT_SECRET!);
+    const otherSession = await prisma.session.create({ data: { userId: otherUser.id } });
+    otherUserToken = jwt.sign({ userId: otherUser.id, sid: otherSession.id }, process.env.JWT_SECRET!);
 
     const thirdUser = await prisma.user.create({
       data: {
@@ -216,6 +218,37 @@ describe('User Followers Routes', () => {
       expect(data.followers[0]).toHaveProperty('createdAt');
     });
 
+    it('should page through followers with a cursor', async () => {
+      for (let i = 0; i < 3; i++) {
+        const follower = await prisma.user.create({
+          data: {
+            email: `cursorfollower${i}@example.com`,
+            username: `cursorfollower${i}`,
+            password: 'hashed',
+          },
+        });
+        await prisma.follow.create({
+          data: {
+            followerId: follower.id,
+            followingId: userId,
+            createdAt: new Date(Date.UTC(2025, 0, 1, 0, 0, i)),
+          },
+        });
+      }
+
+      const first = await fetch(`${baseUrl}/users/${userId}/followers?limit=2`);
+      const firstData: any = await first.json();
+      expect(firstData.followers.map((f: any) => f.username)).toEqual(['cursorfollower2', 'cursorfollower1']);
+      expect(firstData.nextCursor).toBeTruthy();
+
+      const second = await fetch(`${baseUrl}/users/${userId}/followers?limit=2&cursor=${encodeURIComponent(firstData.nextCursor)}`);
+      const secondData: any = await second.json();
+      expect(secondData.followers.map((f: any) => f.username)).toEqual(['cursorfollower0']);
+      expect(secondData.nextCursor).toBeNull();
+      expect(secondData).not.toHaveProperty('total');
+      expect(secondData).not.toHaveProperty('page');
+    });
+
     it('should return empty list when user has no followers', async () => {
       const response = await fetch(`${baseUrl}/users/${userId}/followers`);
 
@@ -313,5 +346,134 @@ describe('User Followers Routes', () => {
       expect(data.user).toHaveProperty('_count');
     });
   });
-});
 
+  describe('PUT /api/users/:userId/role', () => {
+    let adminToken: string;
+    let adminId: string;
+
+    const setRole = (token: string, targetUserId: string, role: string) =>
+      fetch(`${baseUrl}/users/${targetUserId}/role`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ role }),
+      });
+
+    beforeEach(async () => {
+      const admin = await prisma.user.create({
+        data: {
+          email: 'admin@example.com',
+          username: 'adminuser',
+          password: await bcrypt.hash('Password123', 12),
+          role: 'admin',
+        },
+      });
+      adminId = admin.id;
+      const session = await prisma.session.create({ data: { userId: admin.id } });
+      adminToken = jwt.sign({ userId: admin.id, sid: session.id }, process.env.JWT_SECRET!);
+    });
+
+    it('should allow admins to change a user role', async () => {
+      const response = await setRole(adminToken, otherUserId, 'editor');
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.user.role).toBe('editor');
+
+      const user = await prisma.user.findUnique({ where: { id: otherUserId } });
+      expect(user?.role).toBe('editor');
+    });
+
+    it('should not allow non-admins to change roles', async () => {
+      const response = await setRole(authToken, otherUserId, 'admin');
+      const data: any = await response.json();
+
+      expect(response.status).toBe(403);
+      expect(data.error).toBe('Insufficient permissions');
+    });
+
+    it('should not allow admins to change their own role', async () => {
+      const response = await setRole(adminToken, adminId, 'reader');
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject unknown roles', async () => {
+      const response = await setRole(adminToken, otherUserId, 'superuser');
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for non-existent user', async () => {
+      const response = await setRole(adminToken, 'non-existent-id', 'editor');
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/users/:username', () => {
+    beforeEach(async () => {
+      await prisma.user.update({
+        where: { id: userId },
+        data: {
+          displayName: 'Test User',
+          bio: 'Writes about testing',
+          socialLinks: { github: 'https://github.com/testuser' },
+        },
+      });
+      await prisma.follow.create({
+        data: { followerId: otherUserId, followingId: userId },
+      });
+      await prisma.post.createMany({
+        data: [
+          { title: 'Published', content: 'Content', slug: 'published', published: true, authorId: userId },
+          { title: 'Draft', content: 'Content', slug: 'draft', authorId: userId },
+        ],
+      });
+    });
+
+    it('should return the public profile with counts', async () => {
+      const response = await fetch(`${baseUrl}/users/testuser`);
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.user.username).toBe('testuser');
+      expect(data.user.displayName).toBe('Test User');
+      expect(data.user.socialLinks).toEqual({ github: 'https://github.com/testuser' });
+      expect(data.user.followerCount).toBe(1);
+      expect(data.user.followingCount).toBe(0);
+      expect(data.user.postCount).toBe(1);
+    });
+
+    it('should never expose the email or password', async () => {
+      const response = await fetch(`${baseUrl}/users/testuser`);
+      const data: any = await response.json();
+
+      expect(data.user).not.toHaveProperty('email');
+      expect(data.user).not.toHaveProperty('password');
+    });
+
+    it('should return 404 for unknown or deleted users', async () => {
+      const unknownResponse = await fetch(`${baseUrl}/users/nobody`);
+      expect(unknownResponse.status).toBe(404);
+
+      await prisma.user.update({
+        where: { id: otherUserId },
+        data: { deletedAt: new Date() },
+      });
+      const deletedResponse = await fetch(`${baseUrl}/users/otheruser`);
+      expect(deletedResponse.status).toBe(404);
+    });
+
+    it('should list only published posts by the user', async () => {
+      const response = await fetch(`${baseUrl}/users/testuser/posts`);
+      const data: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.posts).toHaveLength(1);
+      expect(data.posts[0].slug).toBe('published');
+      expect(data.posts[0]).toHaveProperty('likeCount', 0);
+      expect(data.posts[0].author).toEqual({ id: userId, username: 'testuser' });
+      expect(data.pagination).toEqual({ page: 1, limit: 10, total: 1, pages: 1, nextCursor: null });
+    });
+  });
+});
@@ -1,4 +1,19 @@
-import { generateToken, hashPassword, comparePassword, generateSlug } from '../utils/auth';
+import {
+  generateToken,
+  hashPassword,
+  comparePassword,
+  generateSlug,
+  sendVerificationEmail,
+  hashToken,
+  hasPermission,
+  requireRole,
+  requirePermission,
+  AuthRequest,
+} from '../utils/auth';
+import { Response } from 'express';
+import { createMemoryTransport, setMailTransport } from '../utils/mailer';
+import { computeContentStats, truncateExcerpt, buildContentStatsData, checkIfMatch } from '../utils/posts';
+import { prisma } from './setup';
 
 describe('Auth Utilities', () => {
   beforeEach(() => {
@@ -9,7 +24,8 @@ describe('Auth Utilities', () => {
   describe('generateToken', () => {
     it('should generate a valid JWT token', () => {
       const userId = 'user-123';
-      const token = generateToken(userId);
+      const sessionId = 'session-123';
+      const token = generateToken(userId, sessionId);
 
       expect(token).toBeDefined();
       expect(typeof token).toBe('string');
@@ -18,6 +34,7 @@ describe('Auth Utilities', () => {
       const jwt = require('jsonwebtoken');
       const decoded = jwt.verify(token, 'test-secret');
       expect(decoded.userId).toBe(userId);
+      expect(decoded.sid).toBe(sessionId);
     });
   });
 
@@ -101,5 +118,167 @@ describe('Auth Utilities', () => {
 
       expect(slug).toBe('hello-world');
     });
+
+    it('should transliterate non-Latin titles', () => {
+      expect(generateSlug('Привет мир')).toBe('privet-mir');
+      expect(generateSlug('你好世界')).toBe('ni-hao-shi-jie');
+      expect(generateSlug('Crème brûlée')).toBe('creme-brulee');
+    });
+
+    it('should trim stray hyphens and cap the length', () => {
+      expect(generateSlug(' - Leading and trailing - ')).toBe('leading-and-trailing');
+      expect(generateSlug(`${'a'.repeat(99)} bcd`)).toBe('a'.repeat(99));
+    });
+  });
+
+  describe('sendVerificationEmail', () => {
+    it('should store a hashed token and mail the raw token', async () => {
+      const transport = createMemoryTransport();
+      setMailTransport(transport);
+
+      const user = await prisma.user.create({
+        data: {
+          email: 'verify@example.com',
+          username: 'verifyuser',
+          password: await hashPassword('Password123'),
+        },
+      });
+
+      await sendVerificationEmail(user);
+
+      expect(transport.messages).toHaveLength(1);
+      expect(transport.messages[0].to).toBe('verify@example.com');
+
+      const token = transport.messages[0].text.match(/Verification token: (\S+)/)![1];
+      const storedToken = await prisma.emailVerificationToken.findUnique({
+        where: { tokenHash: hashToken(token) },
+      });
+      expect(storedToken?.userId).toBe(user.id);
+    });
+  });
+
+  describe('role guards', () => {
+    const buildReq = (role: 'reader' | 'author' | 'editor' | 'admin') => ({
+      user: { id: 'user-1', email: 'a@example.com', username: 'user', role, emailVerifiedAt: null },
+    }) as AuthRequest;
+
+    const buildRes = () => {
+      const res: Partial<Response> = {};
+      res.status = jest.fn().mockReturnValue(res);
+      res.json = jest.fn().mockReturnValue(res);
+      return res as Response;
+    };
+
+    it('should map roles to permissions', () => {
+      expect(hasPermission('reader', 'posts:write')).toBe(false);
+      expect(hasPermission('author', 'posts:write')).toBe(true);
+      expect(hasPermission('author', 'posts:feature')).toBe(false);
+      expect(hasPermission('editor', 'posts:edit-any')).toBe(true);
+      expect(hasPermission('editor', 'users:manage')).toBe(false);
+      expect(hasPermission('admin', 'users:manage')).toBe(true);
+    });
+
+    it('requireRole should call next for allowed roles and 403 otherwise', () => {
+      const next = jest.fn();
+      const res = buildRes();
+
+      requireRole('editor', 'admin')(buildReq('editor'), res, next);
+      expect(next).toHaveBeenCalledTimes(1);
+
+      requireRole('editor', 'admin')(buildReq('author'), res, next);
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(res.status).toHaveBeenCalledWith(403);
+    });
+
+    it('requirePermission should respond 401 without a user', () => {
+      const next = jest.fn();
+      const res = buildRes();
+
+      requirePermission('posts:write')({} as AuthRequest, res, next);
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(401);
+    });
+  });
+});
+
+describe('Post Utilities', () => {
+  describe('computeContentStats', () => {
+    it('should count words without Markdown syntax or code blocks', () => {
+      const stats = computeContentStats('# A title\n\nSome **bold** words\n\n```js\nconst ignored = true;\n```');
+
+      expect(stats.wordCount).toBe(5);
+      expect(stats.autoExcerpt).toBe('A title Some bold words');
+    });
+
+    it('should estimate reading time at 200 words per minute', () => {
+      expect(computeContentStats('word '.repeat(200)).readingTimeMinutes).toBe(1);
+      expect(computeContentStats('word '.repeat(201)).readingTimeMinutes).toBe(2);
+      expect(computeContentStats('').readingTimeMinutes).toBe(1);
+    });
+  });
+
+  describe('truncateExcerpt', () => {
+    it('should leave short text alone', () => {
+      expect(truncateExcerpt('Short text', 20)).toBe('Short text');
+    });
+
+    it('should cut at a word boundary and add an ellipsis', () => {
+      expect(truncateExcerpt('The quick brown fox jumps over the lazy dog', 20)).toBe('The quick brown…');
+    });
+  });
+
+  describe('buildContentStatsData', () => {
+    it('should use an author-supplied excerpt', () => {
+      const data = buildContentStatsData('Body text', 'Custom summary');
+
+      expect(data.excerpt).toBe('Custom summary');
+      expect(data.hasCustomExcerpt).toBe(true);
+    });
+
+    it('should keep a custom excerpt when only the content changes', () => {
+      const data = buildContentStatsData('New body', undefined, { excerpt: 'Custom summary', hasCustomExcerpt: true });
+
+      expect(data.excerpt).toBe('Custom summary');
+      expect(data.wordCount).toBe(2);
+    });
+
+    it('should go back to the automatic excerpt when cleared', () => {
+      const data = buildContentStatsData('New body', null, { excerpt: 'Custom summary', hasCustomExcerpt: true });
+
+      expect(data.excerpt).toBe('New body');
+      expect(data.hasCustomExcerpt).toBe(false);
+    });
+  });
+
+  describe('checkIfMatch', () => {
+    const post = { version: 3 };
+    const originalRequireIfMatch = process.env.REQUIRE_IF_MATCH;
+
+    afterEach(() => {
+      if (originalRequireIfMatch === undefined) {
+        delete process.env.REQUIRE_IF_MATCH;
+      } else {
+        process.env.REQUIRE_IF_MATCH = originalRequireIfMatch;
+      }
+    });
+
+    it('should accept the current version, a list containing it, a weak match or *', () => {
+      expect(checkIfMatch('"3"', post)).toBeNull();
+      expect(checkIfMatch('"1", "3"', post)).toBeNull();
+      expect(checkIfMatch('W/"3"', post)).toBeNull();
+      expect(checkIfMatch('*', post)).toBeNull();
+    });
+
+    it('should refuse a stale version', () => {
+      expect(checkIfMatch('"2"', post)).toBe('stale');
+    });
+
+    it('should only require the header when REQUIRE_IF_MATCH is enabled', () => {
+      process.env.REQUIRE_IF_MATCH = 'false';
+      expect(checkIfMatch(undefined, post)).toBeNull();
+
+      process.env.REQUIRE_IF_MATCH = 'true';
+      expect(checkIfMatch(undefined, post)).toBe('missing');
+    });
   });
 });
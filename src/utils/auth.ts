@@ -1,7 +1,23 @@
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 import { Request, Response, NextFunction } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Role } from '@prisma/client';
+import { transliterate } from 'transliteration';
+import {
+  ACCESS_TOKEN_EXPIRES_IN,
+  REFRESH_TOKEN_TTL_MS,
+  EMAIL_VERIFICATION_TOKEN_TTL_MS,
+  TWO_FACTOR_CHALLENGE_EXPIRES_IN,
+  RECOVERY_CODE_COUNT,
+  PERSONAL_ACCESS_TOKEN_PREFIX,
+  PERSONAL_ACCESS_TOKEN_LAST_USED_RESOLUTION_MS,
+  SESSION_LAST_SEEN_RESOLUTION_MS,
+  TokenScope,
+} from '../constants/auth';
+import { sendMail } from './mailer';
+import { Permission, ROLE_PERMISSIONS } from '../constants/roles';
+import { SLUG_MAX_LENGTH } from '../constants/posts';
 
 const prisma = new PrismaClient();
 
@@ -10,12 +26,105 @@ export interface AuthRequest extends Request {
     id: string;
     email: string;
     username: string;
+    role: Role;
+    emailVerifiedAt: Date | null;
   };
+  sessionId?: string;
 }
 
-export const generateToken = (userId: string): string => {
-  return jwt.sign({ userId }, process.env.JWT_SECRET!, {
-    expiresIn: '7d',
+export const generateToken = (userId: string, sessionId: string): string => {
+  return jwt.sign({ userId, sid: sessionId }, process.env.JWT_SECRET!, {
+    expiresIn: (process.env.JWT_EXPIRES_IN || ACCESS_TOKEN_EXPIRES_IN) as jwt.SignOptions['expiresIn'],
+  });
+};
+
+export const generateOpaqueToken = (): string => {
+  return crypto.randomBytes(48).toString('base64url');
+};
+
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+// Short-lived token proving the password step of a two-factor login succeeded
+export const generateTwoFactorChallenge = (userId: string): string => {
+  return jwt.sign({ userId, purpose: '2fa' }, process.env.JWT_SECRET!, {
+    expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN,
+  });
+};
+
+// Returns the user id for a valid challenge token, or null
+export const verifyTwoFactorChallenge = (challengeToken: string): string | null => {
+  try {
+    const decoded = jwt.verify(challengeToken, process.env.JWT_SECRET!) as { userId: string; purpose?: string };
+    return decoded.purpose === '2fa' ? decoded.userId : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+export const normalizeRecoveryCode = (code: string): string => {
+  return code.replace(/[\s-]/g, '').toLowerCase();
+};
+
+// Recovery codes are formatted as xxxxx-xxxxx for readability; hashes are taken of the normalized form
+export const generateRecoveryCodes = (): string[] => {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = crypto.randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+};
+
+// Creates a refresh token for the session and returns the raw value; only its hash is stored
+export const createRefreshToken = async (sessionId: string): Promise<string> => {
+  const refreshToken = generateOpaqueToken();
+
+  await prisma.refreshToken.create({
+    data: {
+      tokenHash: hashToken(refreshToken),
+      sessionId,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    },
+  });
+
+  return refreshToken;
+};
+
+export interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export const getSessionMetadata = (req: Request): SessionMetadata => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip,
+});
+
+// Starts a new session (refresh token family) for the user
+export const createSession = async (
+  userId: string,
+  metadata: SessionMetadata = {}
+): Promise<{ token: string; refreshToken: string }> => {
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      userAgent: metadata.userAgent,
+      ipAddress: metadata.ipAddress,
+    },
+  });
+
+  const refreshToken = await createRefreshToken(session.id);
+
+  return {
+    token: generateToken(userId, session.id),
+    refreshToken,
+  };
+};
+
+export const revokeSession = async (sessionId: string): Promise<void> => {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() },
   });
 };
 
@@ -28,44 +137,237 @@ export const comparePassword = async (password: string, hashedPassword: string):
   return bcrypt.compare(password, hashedPassword);
 };
 
-export const authenticateToken = async (
+// Signs the user out everywhere, optionally keeping the session making the request
+export const revokeAllSessions = async (userId: string, exceptSessionId?: string): Promise<number> => {
+  const { count } = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+    },
+    data: { revokedAt: new Date() },
+  });
+
+  return count;
+};
+
+// Revokes every personal access token of the user, so none minted with a compromised
+// password or session outlives a password change
+export const revokeAllPersonalAccessTokens = async (userId: string): Promise<number> => {
+  const { count } = await prisma.personalAccessToken.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  return count;
+};
+
+// Replaces any outstanding verification token for the user and emails a new one
+export const sendVerificationEmail = async (user: { id: string; email: string; username: string }): Promise<void> => {
+  const verificationToken = generateOpaqueToken();
+
+  await prisma.emailVerificationToken.deleteMany({
+    where: { userId: user.id },
+  });
+
+  await prisma.emailVerificationToken.create({
+    data: {
+      tokenHash: hashToken(verificationToken),
+      userId: user.id,
+      expiresAt: new Date(Date.now() + EMAIL_VERIFICATION_TOKEN_TTL_MS),
+    },
+  });
+
+  const verifyUrl = `${process.env.FRONTEND_URL}/verify-email?token=${verificationToken}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your email address',
+    text: `Hi ${user.username},\n\nPlease confirm your email address using the link below. It expires in 24 hours.\n\n${verifyUrl}\n\nVerification token: ${verificationToken}`,
+  });
+};
+
+const authUserSelect = { id: true, email: true, username: true, role: true, emailVerifiedAt: true };
+
+// Resolves a personal access token; PATs are only accepted by routes that declare a scope
+const authenticatePersonalAccessToken = async (
+  token: string,
+  scope: TokenScope | undefined,
   req: AuthRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
-  try {
-    const authHeader = req.headers.authorization;
-    const token = authHeader && authHeader.split(' ')[1];
+  const accessToken = await prisma.personalAccessToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: {
+      user: {
+        select: authUserSelect,
+      },
+    },
+  });
 
-    if (!token) {
-      res.status(401).json({ error: 'Access token required' });
-      return;
+  if (!accessToken || accessToken.revokedAt || (accessToken.expiresAt && accessToken.expiresAt < new Date())) {
+    res.status(401).json({ error: 'Invalid or expired token' });
+    return;
+  }
+
+  if (!scope || !accessToken.scopes.includes(scope)) {
+    res.status(403).json({
+      error: 'Insufficient token scope',
+      message: scope
+        ? `This endpoint requires the ${scope} scope`
+        : 'This endpoint does not accept personal access tokens',
+    });
+    return;
+  }
+
+  // Avoid a write on every request from busy scripts
+  const now = new Date();
+  if (!accessToken.lastUsedAt || now.getTime() - accessToken.lastUsedAt.getTime() > PERSONAL_ACCESS_TOKEN_LAST_USED_RESOLUTION_MS) {
+    await prisma.personalAccessToken.update({
+      where: { id: accessToken.id },
+      data: { lastUsedAt: now },
+    });
+  }
+
+  req.user = accessToken.user;
+  next();
+};
+
+// Accepts session access tokens, and personal access tokens granted the given scope
+export const authenticateWithScope = (scope?: TokenScope) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const authHeader = req.headers.authorization;
+      const token = authHeader && authHeader.split(' ')[1];
+
+      if (!token) {
+        res.status(401).json({ error: 'Access token required' });
+        return;
+      }
+
+      if (token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX)) {
+        await authenticatePersonalAccessToken(token, scope, req, res, next);
+        return;
+      }
+
+      const decoded = jwt.verify(token, process.env.JWT_SECRET!) as { userId: string; sid?: string };
+
+      if (!decoded.sid) {
+        res.status(401).json({ error: 'Invalid token' });
+        return;
+      }
+
+      const session = await prisma.session.findUnique({
+        where: { id: decoded.sid },
+        include: {
+          user: {
+            select: authUserSelect,
+          },
+        },
+      });
+
+      if (!session || session.userId !== decoded.userId) {
+        res.status(401).json({ error: 'Invalid token' });
+        return;
+      }
+
+      if (session.revokedAt) {
+        res.status(401).json({ error: 'Session has been revoked' });
+        return;
+      }
+
+      const now = new Date();
+      if (now.getTime() - session.lastSeenAt.getTime() > SESSION_LAST_SEEN_RESOLUTION_MS) {
+        await prisma.session.update({
+          where: { id: session.id },
+          data: { lastSeenAt: now },
+        });
+      }
+
+      req.user = session.user;
+      req.sessionId = session.id;
+      next();
+    } catch (error) {
+      res.status(403).json({ error: 'Invalid or expired token' });
     }
+  };
+};
+
+// Session tokens only; personal access tokens are rejected
+export const authenticateToken = authenticateWithScope();
+
+// Blocks unverified users unless EMAIL_VERIFICATION_POLICY is "off"; must run after authenticateToken
+export const requireVerifiedEmail = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (process.env.EMAIL_VERIFICATION_POLICY === 'off') {
+    next();
+    return;
+  }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as { userId: string };
+  if (!req.user) {
+    res.status(401).json({ error: 'Authentication required' });
+    return;
+  }
 
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-      select: { id: true, email: true, username: true },
+  if (!req.user.emailVerifiedAt) {
+    res.status(403).json({
+      error: 'Email verification required',
+      message: 'Please verify your email address before continuing',
     });
+    return;
+  }
+
+  next();
+};
+
+export const hasPermission = (role: Role, permission: Permission): boolean => {
+  return ROLE_PERMISSIONS[role].includes(permission);
+};
+
+// Both role guards must run after authenticateToken
+export const requireRole = (...roles: Role[]) => {
+  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
 
-    if (!user) {
-      res.status(401).json({ error: 'Invalid token' });
+    if (!roles.includes(req.user.role)) {
+      res.status(403).json({ error: 'Insufficient permissions' });
       return;
     }
 
-    req.user = user;
     next();
-  } catch (error) {
-    res.status(403).json({ error: 'Invalid or expired token' });
-  }
+  };
+};
+
+export const requirePermission = (permission: Permission) => {
+  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    if (!hasPermission(req.user.role, permission)) {
+      res.status(403).json({ error: 'Insufficient permissions' });
+      return;
+    }
+
+    next();
+  };
 };
 
+// Non-Latin titles are transliterated (Привет → privet, 你好 → ni-hao) rather than dropped
 export const generateSlug = (title: string): string => {
-  return title
+  return transliterate(title)
     .toLowerCase()
-    .replace(/\s+/g, '-')
-    .replace(/-+/g, '-')
-    .replace(/[^a-z0-9 -]/g, '')
-    .trim();
+    .replace(/[^a-z0-9\s-]/g, '')
+    .trim()
+    .replace(/[\s-]+/g, '-')
+    .slice(0, SLUG_MAX_LENGTH)
+    .replace(/^-+|-+$/g, '');
 };
\ No newline at end of file
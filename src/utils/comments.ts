@@ -0,0 +1,271 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { COMMENT_MAX_DEPTH, COMMENT_REPLY_PREVIEW_LIMIT, COMMENT_TOMBSTONE_CONTENT, CommentSort } from '../constants/posts';
+import { Pagination, SortKey, encodeCursor, paginationArgs, takePage } from './pagination';
+
+const prisma = new PrismaClient();
+
+export interface CommentRow {
+  id: string;
+  content: string;
+  postId: string;
+  userId: string | null;
+  parentId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  editedAt: Date | null;
+  deletedAt: Date | null;
+  username: string | null;
+  likeCount: number;
+  replyCount: number;
+}
+
+export interface CommentNode {
+  id: string;
+  content: string;
+  postId: string;
+  userId: string | null;
+  parentId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  editedAt: Date | null;
+  deletedAt: Date | null;
+  user: { id: string; username: string } | null;
+  likeCount: number;
+  replyCount: number;
+  // Cursor for loading the replies after the ones shown, or null when all are shown
+  repliesCursor: string | null;
+  replies: CommentNode[];
+}
+
+interface CommentPageRow {
+  id: string;
+  createdAt: Date;
+  likeCount: number;
+}
+
+// Every sort uses a single direction for all of its keys so cursors compare as one row value
+export const COMMENT_SORT_KEYS: Record<CommentSort, SortKey[]> = {
+  oldest: [
+    { field: 'createdAt', direction: 'asc', type: 'date' },
+    { field: 'id', direction: 'asc', type: 'string' },
+  ],
+  newest: [
+    { field: 'createdAt', direction: 'desc', type: 'date' },
+    { field: 'id', direction: 'desc', type: 'string' },
+  ],
+  top: [
+    { field: 'likeCount', direction: 'desc', type: 'number' },
+    { field: 'createdAt', direction: 'desc', type: 'date' },
+    { field: 'id', direction: 'desc', type: 'string' },
+  ],
+};
+
+// Timestamps are stored as UTC without a time zone, so cursor dates are compared the same way
+const cursorValue = (value: unknown): Prisma.Sql =>
+  value instanceof Date
+    ? Prisma.sql`(${value.toISOString()}::timestamptz AT TIME ZONE 'UTC')`
+    : Prisma.sql`${value}`;
+
+const keysetWhere = (pagination: Pagination): Prisma.Sql => {
+  if (!pagination.after) {
+    return Prisma.sql`TRUE`;
+  }
+
+  const columns = Prisma.join(pagination.keys.map((key) => Prisma.raw(`s."${key.field}"`)));
+  const values = Prisma.join(pagination.after.map(cursorValue));
+  const operator = Prisma.raw(pagination.keys[0].direction === 'desc' ? '<' : '>');
+  return Prisma.sql`(${columns}) ${operator} (${values})`;
+};
+
+const keysetOrderBy = (keys: SortKey[], alias: string = 's'): Prisma.Sql =>
+  Prisma.raw(keys.map((key) => `${alias}."${key.field}" ${key.direction.toUpperCase()}`).join(', '));
+
+// A page of the comments directly under a parent, or of the top-level comments when
+// parentId is null. Like counts are computed in the query so "top" can be paged by cursor.
+export const findCommentPage = async (postId: string, parentId: string | null, pagination: Pagination) => {
+  const { skip, take } = paginationArgs(pagination);
+  const parentWhere = parentId ? Prisma.sql`c."parentId" = ${parentId}` : Prisma.sql`c."parentId" IS NULL`;
+
+  const rows = await prisma.$queryRaw<CommentPageRow[]>`
+    SELECT s.* FROM (
+      SELECT
+        c."id",
+        c."createdAt",
+        (SELECT COUNT(*) FROM "comment_likes" cl WHERE cl."commentId" = c."id")::int AS "likeCount"
+      FROM "comments" c
+      WHERE c."postId" = ${postId} AND ${parentWhere}
+    ) s
+    WHERE ${keysetWhere(pagination)}
+    ORDER BY ${keysetOrderBy(pagination.keys)}
+    OFFSET ${skip}
+    LIMIT ${take}
+  `;
+
+  return takePage(rows, pagination);
+};
+
+// The given comments with their replies down to COMMENT_MAX_DEPTH levels, at most
+// COMMENT_REPLY_PREVIEW_LIMIT of them under each comment, in the given sort. Like and
+// reply counts are aggregated in the same query.
+const loadCommentRows = (ids: string[], sort: CommentSort): Promise<CommentRow[]> => prisma.$queryRaw<CommentRow[]>`
+  WITH RECURSIVE thread AS (
+    SELECT
+      c.*,
+      (SELECT COUNT(*) FROM "comment_likes" cl WHERE cl."commentId" = c."id")::int AS "likeCount",
+      0 AS "depth"
+    FROM "comments" c
+    WHERE c."id" IN (${Prisma.join(ids)})
+    UNION ALL
+    SELECT r.*, t."depth" + 1
+    FROM thread t
+    CROSS JOIN LATERAL (
+      SELECT s.* FROM (
+        SELECT
+          c.*,
+          (SELECT COUNT(*) FROM "comment_likes" cl WHERE cl."commentId" = c."id")::int AS "likeCount"
+        FROM "comments" c
+        WHERE c."parentId" = t."id"
+      ) s
+      ORDER BY ${keysetOrderBy(COMMENT_SORT_KEYS[sort])}
+      LIMIT ${COMMENT_REPLY_PREVIEW_LIMIT}
+    ) r
+    WHERE t."depth" < ${COMMENT_MAX_DEPTH}
+  )
+  SELECT
+    t."id", t."content", t."postId", t."userId", t."parentId",
+    t."createdAt", t."updatedAt", t."editedAt", t."deletedAt",
+    u."username",
+    t."likeCount",
+    (SELECT COUNT(*) FROM "comments" r WHERE r."parentId" = t."id")::int AS "replyCount"
+  FROM thread t
+  LEFT JOIN "users" u ON u."id" = t."userId"
+  ORDER BY t."depth" ASC, ${keysetOrderBy(COMMENT_SORT_KEYS[sort], 't')}
+`;
+
+// Deleted comments keep their place in the thread but not their author
+const toCommentNode = (row: CommentRow): CommentNode => {
+  const author = row.deletedAt === null && row.userId !== null && row.username !== null
+    ? { id: row.userId, username: row.username }
+    : null;
+  return {
+    id: row.id,
+    content: row.content,
+    postId: row.postId,
+    userId: author ? author.id : null,
+    parentId: row.parentId,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    editedAt: row.editedAt,
+    deletedAt: row.deletedAt,
+    user: author,
+    likeCount: row.likeCount,
+    replyCount: row.replyCount,
+    repliesCursor: null,
+    replies: [],
+  };
+};
+
+// Nests rows under their parents, keeping the order they came in. Rows whose parent is
+// not among them are treated as top-level. Replies cursors continue in the given sort,
+// which must be the order the replies came in.
+export const buildCommentTree = (rows: CommentRow[], sort: CommentSort = 'oldest'): CommentNode[] => {
+  const nodes = new Map(rows.map((row) => [row.id, toCommentNode(row)]));
+  const roots: CommentNode[] = [];
+
+  nodes.forEach((node) => {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) {
+      parent.replies.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  nodes.forEach((node) => {
+    if (node.replies.length > 0 && node.replyCount > node.replies.length) {
+      const lastShown = node.replies[node.replies.length - 1];
+      node.repliesCursor = encodeCursor(
+        { createdAt: lastShown.createdAt, id: lastShown.id, likeCount: lastShown.likeCount },
+        COMMENT_SORT_KEYS[sort]
+      );
+    }
+  });
+
+  return roots;
+};
+
+// Threads for a page of comments, in the page's order, with replies in the given sort
+export const getCommentThreads = async (comments: { id: string }[], sort: CommentSort = 'oldest'): Promise<CommentNode[]> => {
+  if (comments.length === 0) {
+    return [];
+  }
+
+  const threads = new Map(buildCommentTree(await loadCommentRows(comments.map((comment) => comment.id), sort), sort)
+    .map((node) => [node.id, node]));
+  return comments.flatMap((comment) => threads.get(comment.id) || []);
+};
+
+// Removes a comment, or turns it into a tombstone when it has replies so the thread stays
+// intact. Tombstoned ancestors left without replies are removed as well. Each delete only
+// matches a comment without replies, so a reply arriving meanwhile is never cascaded away.
+export const deleteComment = async (comment: { id: string; parentId: string | null }): Promise<'deleted' | 'tombstoned'> => {
+  const { count } = await prisma.comment.deleteMany({
+    where: { id: comment.id, replies: { none: {} } },
+  });
+
+  if (count === 0) {
+    await prisma.comment.update({
+      where: { id: comment.id },
+      data: { content: COMMENT_TOMBSTONE_CONTENT, deletedAt: new Date() },
+    });
+    return 'tombstoned';
+  }
+
+  let parentId = comment.parentId;
+  while (parentId) {
+    const parent = await prisma.comment.findUnique({
+      where: { id: parentId },
+      select: { parentId: true },
+    });
+    const removed = parent && await prisma.comment.deleteMany({
+      where: { id: parentId, deletedAt: { not: null }, replies: { none: {} } },
+    });
+
+    if (!parent || !removed || removed.count === 0) {
+      break;
+    }
+    parentId = parent.parentId;
+  }
+
+  return 'deleted';
+};
+
+// Used before an account is deleted along with its comments. Comments that have replies
+// become tombstones without an author, so the replies survive the cascade; their ids
+// are returned for pruneTombstones.
+export const detachRepliedComments = async (userId: string): Promise<string[]> => {
+  const comments = await prisma.comment.findMany({
+    where: { userId, replies: { some: {} } },
+    select: { id: true },
+  });
+  const ids = comments.map((comment) => comment.id);
+
+  await prisma.comment.updateMany({
+    where: { id: { in: ids } },
+    data: { content: COMMENT_TOMBSTONE_CONTENT, deletedAt: new Date(), userId: null },
+  });
+
+  return ids;
+};
+
+// Removes tombstones among the given comments that no longer have replies, innermost first
+export const pruneTombstones = async (ids: string[]): Promise<void> => {
+  for (let depth = 0; depth <= COMMENT_MAX_DEPTH; depth++) {
+    const { count } = await prisma.comment.deleteMany({
+      where: { id: { in: ids }, deletedAt: { not: null }, replies: { none: {} } },
+    });
+    if (count === 0) {
+      return;
+    }
+  }
+};
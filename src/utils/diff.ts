@@ -0,0 +1,80 @@
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed';
+  line: string;
+  oldNumber?: number;
+  newNumber?: number;
+}
+
+// Line-level diff using Myers' O((N+M)D) algorithm. Each step stores only the diagonals
+// it reached, so memory grows with the size of the edit rather than the size of the text.
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+  const n = a.length;
+  const m = b.length;
+
+  // trace[d][k + d] holds the furthest x reached on diagonal k after d edits
+  const trace: Int32Array[] = [];
+  let previous = new Int32Array(1);
+  let finalD = 0;
+
+  search:
+  for (let d = 0; d <= n + m; d++) {
+    const current = new Int32Array(2 * d + 1);
+    for (let k = -d; k <= d; k += 2) {
+      const down = d > 0 && (k === -d || (k !== d && previous[k - 1 + d - 1] < previous[k + 1 + d - 1]));
+      let x = d === 0 ? 0 : down ? previous[k + 1 + d - 1] : previous[k - 1 + d - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      current[k + d] = x;
+
+      if (x >= n && y >= m) {
+        trace.push(current);
+        finalD = d;
+        break search;
+      }
+    }
+    trace.push(current);
+    previous = current;
+  }
+
+  const result: DiffLine[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = finalD; d > 0; d--) {
+    const prev = trace[d - 1];
+    const k = x - y;
+    const down = k === -d || (k !== d && prev[k - 1 + d - 1] < prev[k + 1 + d - 1]);
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = prev[prevK + d - 1];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      result.push({ type: 'equal', line: a[x], oldNumber: x + 1, newNumber: y + 1 });
+    }
+
+    if (down) {
+      y--;
+      result.push({ type: 'added', line: b[y], newNumber: y + 1 });
+    } else {
+      x--;
+      result.push({ type: 'removed', line: a[x], oldNumber: x + 1 });
+    }
+  }
+
+  while (x > 0 && y > 0) {
+    x--;
+    y--;
+    result.push({ type: 'equal', line: a[x], oldNumber: x + 1, newNumber: y + 1 });
+  }
+
+  return result.reverse();
+};
@@ -0,0 +1,165 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  LOGIN_MAX_FAILED_ATTEMPTS,
+  LOGIN_LOCKOUT_BASE_MS,
+  LOGIN_LOCKOUT_MAX_MS,
+  LOGIN_IP_MAX_FAILED_ATTEMPTS,
+  LOGIN_IP_WINDOW_MS,
+} from '../constants/rateLimit';
+import { ACCOUNT_UNLOCK_TOKEN_TTL_MS } from '../constants/auth';
+import { generateOpaqueToken, hashToken, SessionMetadata } from './auth';
+import { sendMail } from './mailer';
+
+const prisma = new PrismaClient();
+
+export type LoginFailureReason =
+  | 'unknown_user'
+  | 'invalid_password'
+  | 'invalid_2fa_code'
+  | 'account_locked'
+  | 'ip_throttled';
+
+interface LoginUser {
+  id: string;
+  email: string;
+  username: string;
+  lockedUntil: Date | null;
+}
+
+export const recordLoginAttempt = async (
+  email: string,
+  metadata: SessionMetadata,
+  outcome: { userId?: string; success: boolean; reason?: LoginFailureReason }
+): Promise<void> => {
+  await prisma.loginAttempt.create({
+    data: {
+      email,
+      userId: outcome.userId,
+      ipAddress: metadata.ipAddress,
+      userAgent: metadata.userAgent,
+      success: outcome.success,
+      reason: outcome.reason,
+    },
+  });
+};
+
+// Milliseconds until the IP may try again, or null when it is under the limit.
+// Throttled requests are not counted so a blocked client cannot extend its own window.
+export const getIpRetryAfterMs = async (ipAddress: string | undefined): Promise<number | null> => {
+  if (!ipAddress) {
+    return null;
+  }
+
+  const windowStart = new Date(Date.now() - LOGIN_IP_WINDOW_MS);
+  const failures = await prisma.loginAttempt.findMany({
+    where: {
+      ipAddress,
+      success: false,
+      reason: { not: 'ip_throttled' },
+      createdAt: { gt: windowStart },
+    },
+    select: { createdAt: true },
+    orderBy: { createdAt: 'desc' },
+    take: LOGIN_IP_MAX_FAILED_ATTEMPTS,
+  });
+
+  if (failures.length < LOGIN_IP_MAX_FAILED_ATTEMPTS) {
+    return null;
+  }
+
+  // The window reopens once the oldest of the most recent failures ages out
+  const oldest = failures[failures.length - 1].createdAt;
+  return Math.max(oldest.getTime() + LOGIN_IP_WINDOW_MS - Date.now(), 0);
+};
+
+// Milliseconds until the account unlocks, or null when it is not locked
+export const getLockRetryAfterMs = (user: Pick<LoginUser, 'lockedUntil'>): number | null => {
+  if (!user.lockedUntil) {
+    return null;
+  }
+
+  const remaining = user.lockedUntil.getTime() - Date.now();
+  return remaining > 0 ? remaining : null;
+};
+
+export const getLockoutDurationMs = (failedLoginCount: number): number => {
+  const excess = Math.max(failedLoginCount - LOGIN_MAX_FAILED_ATTEMPTS, 0);
+  return Math.min(LOGIN_LOCKOUT_BASE_MS * 2 ** excess, LOGIN_LOCKOUT_MAX_MS);
+};
+
+export const sendAccountUnlockEmail = async (user: Omit<LoginUser, 'lockedUntil'>): Promise<void> => {
+  const unlockToken = generateOpaqueToken();
+
+  await prisma.accountUnlockToken.deleteMany({
+    where: { userId: user.id },
+  });
+
+  await prisma.accountUnlockToken.create({
+    data: {
+      tokenHash: hashToken(unlockToken),
+      userId: user.id,
+      expiresAt: new Date(Date.now() + ACCOUNT_UNLOCK_TOKEN_TTL_MS),
+    },
+  });
+
+  const unlockUrl = `${process.env.FRONTEND_URL}/unlock-account?token=${unlockToken}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Your account has been locked',
+    text: `Hi ${user.username},\n\nWe temporarily locked your account after several failed sign-in attempts. Use the link below to unlock it now. It expires in 24 hours.\n\n${unlockUrl}\n\nUnlock token: ${unlockToken}\n\nIf these attempts were not you, consider resetting your password.`,
+  });
+};
+
+// Counts a failed password or second-factor check against the account, locking it with
+// exponential backoff once the threshold is reached. Returns the new lock duration, if any.
+export const recordLoginFailure = async (
+  user: LoginUser,
+  metadata: SessionMetadata,
+  reason: LoginFailureReason
+): Promise<number | null> => {
+  await recordLoginAttempt(user.email, metadata, { userId: user.id, success: false, reason });
+
+  const { failedLoginCount } = await prisma.user.update({
+    where: { id: user.id },
+    data: { failedLoginCount: { increment: 1 } },
+    select: { failedLoginCount: true },
+  });
+
+  if (failedLoginCount < LOGIN_MAX_FAILED_ATTEMPTS) {
+    return null;
+  }
+
+  const lockoutMs = getLockoutDurationMs(failedLoginCount);
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { lockedUntil: new Date(Date.now() + lockoutMs) },
+  });
+
+  // Only the first lock sends an email so repeated attempts don't flood the inbox
+  if (failedLoginCount === LOGIN_MAX_FAILED_ATTEMPTS) {
+    await sendAccountUnlockEmail(user);
+  }
+
+  return lockoutMs;
+};
+
+export const recordLoginSuccess = async (user: LoginUser, metadata: SessionMetadata): Promise<void> => {
+  await recordLoginAttempt(user.email, metadata, { userId: user.id, success: true });
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { failedLoginCount: 0, lockedUntil: null },
+  });
+};
+
+export const clearAccountLock = async (userId: string): Promise<void> => {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginCount: 0, lockedUntil: null },
+  });
+
+  await prisma.accountUnlockToken.deleteMany({
+    where: { userId },
+  });
+};
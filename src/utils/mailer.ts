@@ -0,0 +1,77 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send: (message: MailMessage) => Promise<void>;
+}
+
+// Logs outgoing mail to stdout, handy for local development
+export const consoleTransport: MailTransport = {
+  send: async (message) => {
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  },
+};
+
+// Writes each message as a JSON file into the given directory
+export const createFileTransport = (directory: string): MailTransport => ({
+  send: async (message) => {
+    await fs.mkdir(directory, { recursive: true });
+    const fileName = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.json`;
+    await fs.writeFile(
+      path.join(directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  },
+});
+
+// Keeps messages in memory so tests running in the same process can inspect them
+export const createMemoryTransport = (): MailTransport & { messages: MailMessage[] } => {
+  const messages: MailMessage[] = [];
+  return {
+    messages,
+    send: async (message) => {
+      messages.push(message);
+    },
+  };
+};
+
+let transport: MailTransport | null = null;
+
+// Used under NODE_ENV=test and with MAIL_TRANSPORT=memory
+const memoryTransport = createMemoryTransport();
+
+const resolveTransport = (): MailTransport => {
+  if (!transport) {
+    if (process.env.NODE_ENV === 'test' || process.env.MAIL_TRANSPORT === 'memory') {
+      transport = memoryTransport;
+    } else if (process.env.MAIL_TRANSPORT === 'file') {
+      transport = createFileTransport(process.env.MAIL_OUTBOX_DIR || 'mail-outbox');
+    } else {
+      transport = consoleTransport;
+    }
+  }
+  return transport;
+};
+
+// Messages kept by the memory transport for a recipient, oldest first
+export const getSentMail = (to: string): MailMessage[] =>
+  memoryTransport.messages.filter((message) => message.to === to);
+
+export const clearSentMail = (): void => {
+  memoryTransport.messages.length = 0;
+};
+
+export const setMailTransport = (mailTransport: MailTransport): void => {
+  transport = mailTransport;
+};
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await resolveTransport().send(message);
+};
@@ -0,0 +1,138 @@
+import MarkdownIt from 'markdown-it';
+import sanitizeHtml from 'sanitize-html';
+import hljs from 'highlight.js/lib/common';
+
+export interface TocEntry {
+  level: number;
+  text: string;
+  id: string;
+}
+
+export interface RenderedMarkdown {
+  html: string;
+  toc: TocEntry[];
+}
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const slugifyHeading = (text: string): string => {
+  const slug = text
+    .toLowerCase()
+    .trim()
+    .replace(/[^\w\s-]/g, '')
+    .replace(/[\s_]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+  return slug || 'section';
+};
+
+// Raw HTML in the source is escaped rather than passed through; sanitizeHtml below is a
+// second line of defence for anything the renderer itself emits
+const markdown: MarkdownIt = new MarkdownIt({
+  html: false,
+  linkify: true,
+  highlight: (code, language) => {
+    if (language && hljs.getLanguage(language)) {
+      const highlighted = hljs.highlight(code, { language, ignoreIllegals: true }).value;
+      return `<pre><code class="hljs language-${escapeHtml(language)}">${highlighted}</code></pre>`;
+    }
+    // Fall back to markdown-it's escaped output with a language-* class
+    return '';
+  },
+});
+
+// Gives every heading a unique id and collects the table of contents into env.toc
+markdown.core.ruler.push('heading_anchors', (state) => {
+  const toc: TocEntry[] = [];
+  const usedIds = new Set<string>();
+
+  state.tokens.forEach((token, index) => {
+    if (token.type !== 'heading_open') {
+      return;
+    }
+
+    const inline = state.tokens[index + 1];
+    const text = (inline.children || [])
+      .filter((child) => child.type === 'text' || child.type === 'code_inline')
+      .map((child) => child.content)
+      .join('');
+
+    const baseId = slugifyHeading(text);
+    let id = baseId;
+    for (let suffix = 1; usedIds.has(id); suffix++) {
+      id = `${baseId}-${suffix}`;
+    }
+    usedIds.add(id);
+
+    token.attrSet('id', id);
+    toc.push({ level: Number(token.tag.slice(1)), text, id });
+  });
+
+  state.env.toc = toc;
+  return true;
+});
+
+const sanitizeOptions: sanitizeHtml.IOptions = {
+  allowedTags: sanitizeHtml.defaults.allowedTags.concat(['img', 'h1', 'h2', 'del', 's']),
+  allowedAttributes: {
+    a: ['href', 'title', 'rel'],
+    img: ['src', 'alt', 'title'],
+    h1: ['id'],
+    h2: ['id'],
+    h3: ['id'],
+    h4: ['id'],
+    h5: ['id'],
+    h6: ['id'],
+    code: ['class'],
+    span: ['class'],
+    th: ['style'],
+    td: ['style'],
+    ol: ['start'],
+  },
+  allowedClasses: {
+    code: ['hljs', 'language-*'],
+    span: ['hljs-*'],
+  },
+  allowedStyles: {
+    th: { 'text-align': [/^(left|right|center)$/] },
+    td: { 'text-align': [/^(left|right|center)$/] },
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  transformTags: {
+    a: sanitizeHtml.simpleTransform('a', { rel: 'nofollow noopener noreferrer' }),
+  },
+};
+
+export const renderMarkdown = (source: string): RenderedMarkdown => {
+  const env: { toc?: TocEntry[] } = {};
+  const html = markdown.render(source, env);
+
+  return {
+    html: sanitizeHtml(html, sanitizeOptions),
+    toc: env.toc || [],
+  };
+};
+
+// Text content of the Markdown without markup; code blocks are left out
+export const markdownToPlainText = (source: string): string => {
+  const blocks: string[] = [];
+
+  markdown.parse(source, {}).forEach((token) => {
+    if (token.type !== 'inline') {
+      return;
+    }
+
+    const text = (token.children || [])
+      .map((child) => {
+        if (child.type === 'text' || child.type === 'code_inline') {
+          return child.content;
+        }
+        return child.type === 'softbreak' || child.type === 'hardbreak' ? ' ' : '';
+      })
+      .join('');
+    blocks.push(text);
+  });
+
+  return blocks.join(' ').replace(/\s+/g, ' ').trim();
+};
@@ -0,0 +1,143 @@
+import { DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT } from '../constants/pagination';
+
+export type CursorValueType = 'string' | 'number' | 'boolean' | 'date';
+
+export interface SortKey {
+  field: string;
+  direction: 'asc' | 'desc';
+  // What the field holds, so values in a cursor can be checked before they reach a query
+  type: CursorValueType;
+}
+
+type CursorValue = string | number | boolean | Date;
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  keys: SortKey[];
+  // Sort key values of the last item already returned, when paging by cursor
+  after: CursorValue[] | null;
+}
+
+const isCursorValue = (value: unknown, type: CursorValueType): value is CursorValue => {
+  if (type === 'date') {
+    return value instanceof Date && !Number.isNaN(value.getTime());
+  }
+  if (type === 'number') {
+    return typeof value === 'number' && Number.isFinite(value);
+  }
+  return typeof value === type;
+};
+
+const describeKeys = (keys: SortKey[]): string => keys.map((key) => `${key.field}:${key.direction}`).join(',');
+
+// Cursors are opaque to clients: base64url JSON of the sort order and the last item's values
+export const encodeCursor = (item: Record<string, unknown>, keys: SortKey[]): string => {
+  const values = keys.map((key) => {
+    const value = item[key.field];
+    return value instanceof Date ? { $date: value.toISOString() } : value;
+  });
+  return Buffer.from(JSON.stringify({ k: describeKeys(keys), v: values })).toString('base64url');
+};
+
+// Values from a cursor, or null when it is malformed, holds a value of the wrong type for
+// its key or was issued for a different sort order
+export const decodeCursor = (cursor: string, keys: SortKey[]): CursorValue[] | null => {
+  try {
+    const { k, v } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (k !== describeKeys(keys) || !Array.isArray(v) || v.length !== keys.length) {
+      return null;
+    }
+
+    const values: unknown[] = v.map((value: unknown) => {
+      if (value && typeof value === 'object' && typeof (value as { $date?: unknown }).$date === 'string') {
+        return new Date((value as { $date: string }).$date);
+      }
+      return value;
+    });
+    return values.every((value, index) => isCursorValue(value, keys[index].type)) ? values as CursorValue[] : null;
+  } catch {
+    return null;
+  }
+};
+
+export const parseLimit = (value: unknown, defaultLimit: number = DEFAULT_PAGE_LIMIT): number => {
+  const limit = parseInt(value as string);
+  if (Number.isNaN(limit) || limit < 1) {
+    return defaultLimit;
+  }
+  return Math.min(limit, MAX_PAGE_LIMIT);
+};
+
+// Reads page/limit or cursor/limit from the query. Returns null for an invalid cursor.
+// The sort keys must end with a unique field (normally id) so the order is total.
+export const getPagination = (
+  query: Record<string, unknown>,
+  keys: SortKey[],
+  defaultLimit: number = DEFAULT_PAGE_LIMIT
+): Pagination | null => {
+  const limit = parseLimit(query.limit, defaultLimit);
+
+  if (query.cursor !== undefined) {
+    const after = typeof query.cursor === 'string' ? decodeCursor(query.cursor, keys) : null;
+    return after ? { page: 1, limit, keys, after } : null;
+  }
+
+  return { page: Math.max(parseInt(query.page as string) || 1, 1), limit, keys, after: null };
+};
+
+export const paginationOrderBy = (pagination: Pagination) =>
+  pagination.keys.map((key) => ({ [key.field]: key.direction }));
+
+// Rows strictly after the cursor in sort order: equal on every earlier key and past it on the next
+export const paginationWhere = (pagination: Pagination): Record<string, unknown> => {
+  const { keys, after } = pagination;
+  if (!after) {
+    return {};
+  }
+
+  const branches = keys.flatMap((key, index) => {
+    const equalities = keys.slice(0, index).map((previous, i) => ({ [previous.field]: after[i] }));
+    const value = after[index];
+
+    // Booleans only support equality filters; false sorts before true
+    if (typeof value === 'boolean') {
+      const next = key.direction === 'desc' ? false : true;
+      return value === next ? [] : [{ AND: [...equalities, { [key.field]: next }] }];
+    }
+
+    return [{ AND: [...equalities, { [key.field]: { [key.direction === 'desc' ? 'lt' : 'gt']: value } }] }];
+  });
+
+  return { OR: branches };
+};
+
+// skip/take for the query. One extra row is fetched to tell whether another page follows.
+export const paginationArgs = (pagination: Pagination) => ({
+  skip: pagination.after ? 0 : (pagination.page - 1) * pagination.limit,
+  take: pagination.limit + 1,
+});
+
+// Trims the extra row and builds the cursor for the next page, if there is one
+export const takePage = <T>(rows: T[], pagination: Pagination, cursorSource: (row: T) => Record<string, unknown> = (row) => row as Record<string, unknown>) => {
+  const items = rows.slice(0, pagination.limit);
+  const nextCursor = rows.length > pagination.limit
+    ? encodeCursor(cursorSource(items[items.length - 1]), pagination.keys)
+    : null;
+  return { items, nextCursor };
+};
+
+// Pagination block for list responses. Totals are only counted when paging by page number.
+export const paginationMeta = (pagination: Pagination, nextCursor: string | null, total?: number) => {
+  if (pagination.after || total === undefined) {
+    return { limit: pagination.limit, nextCursor };
+  }
+
+  return {
+    page: pagination.page,
+    limit: pagination.limit,
+    total,
+    pages: Math.ceil(total / pagination.limit),
+    nextCursor,
+  };
+};
@@ -0,0 +1,208 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import NodeCache from 'node-cache';
+import { PostStatus, POST_TRASH_RETENTION_DAYS, WORDS_PER_MINUTE, EXCERPT_MAX_LENGTH } from '../constants/posts';
+import { CACHE_CONFIG } from '../constants/cache';
+import { renderMarkdown, RenderedMarkdown, markdownToPlainText } from './markdown';
+
+const prisma = new PrismaClient();
+
+// Rendered HTML keyed by post and content hash, so edits never serve stale output
+const renderedContentCache = new NodeCache({ stdTTL: CACHE_CONFIG.TTL_RENDERED_CONTENT });
+
+// Posts visible to the public. Trashed posts never are; scheduled posts count as soon as
+// their publish time has passed, even if the scheduler has not flipped them to published yet.
+export const publicPostWhere = (): Prisma.PostWhereInput => ({
+  deletedAt: null,
+  OR: [
+    { published: true },
+    { publishAt: { lte: new Date() } },
+  ],
+});
+
+// Where clause selecting an author's posts in a given status
+export const postStatusWhere = (status: PostStatus): Prisma.PostWhereInput => {
+  switch (status) {
+    case 'published':
+      return publicPostWhere();
+    case 'scheduled':
+      return { published: false, publishAt: { gt: new Date() } };
+    default:
+      return { published: false, publishAt: null };
+  }
+};
+
+export const getPostStatus = (post: { published: boolean; publishAt: Date | null }): PostStatus => {
+  if (post.published || (post.publishAt && post.publishAt <= new Date())) {
+    return 'published';
+  }
+  return post.publishAt ? 'scheduled' : 'draft';
+};
+
+// Days a trashed post is kept before the purge job removes it for good
+export const getTrashRetentionDays = (): number => {
+  const configured = parseInt(process.env.POST_TRASH_RETENTION_DAYS as string);
+  return Number.isNaN(configured) || configured < 0 ? POST_TRASH_RETENTION_DAYS : configured;
+};
+
+export const getPurgeDate = (deletedAt: Date): Date => {
+  return new Date(deletedAt.getTime() + getTrashRetentionDays() * 24 * 60 * 60 * 1000);
+};
+
+// Version-based ETag for a post. The version goes up on every edit, but not on views or likes.
+export const getPostETag = (post: { version: number }): string => `"${post.version}"`;
+
+// Weak ETag for a post as shown to readers. It starts with the version, so it can be sent
+// back as If-Match, and adds a hash of what changes between edits: the like count, the
+// author, category and tag names, and whether the content was rendered. The view count is
+// left out; every read bumps it, so hashing it would make each ETag stale right away.
+export const getPostReadETag = (
+  post: { version: number; author: unknown; category: unknown; tags: unknown },
+  likeCount: number,
+  variant: string
+): string => {
+  const hash = crypto.createHash('sha256')
+    .update(JSON.stringify([likeCount, post.author, post.category, post.tags, variant]))
+    .digest('hex')
+    .slice(0, 16);
+  return `W/"${post.version}-${hash}"`;
+};
+
+// The version an ETag from getPostETag or getPostReadETag was issued for
+const getETagVersion = (etag: string): string =>
+  etag.trim().replace(/^W\//, '').replace(/^"(\d+)(-[0-9a-f]*)?"$/, '"$1"');
+
+// Whether updates and deletes must send If-Match (REQUIRE_IF_MATCH=true) or may omit it
+export const isIfMatchRequired = (): boolean => process.env.REQUIRE_IF_MATCH === 'true';
+
+// Checks an If-Match header against a post. Returns why the write must be refused, or null
+// when it may go ahead. Weak validators and read ETags are compared by their version.
+export const checkIfMatch = (
+  header: string | undefined,
+  post: { version: number }
+): 'missing' | 'stale' | null => {
+  if (!header) {
+    return isIfMatchRequired() ? 'missing' : null;
+  }
+  if (header.trim() === '*') {
+    return null;
+  }
+
+  const etag = getPostETag(post);
+  const matches = header.split(',').some((candidate) => getETagVersion(candidate) === etag);
+  return matches ? null : 'stale';
+};
+
+// Cuts plain text at a word boundary, adding an ellipsis when shortened
+export const truncateExcerpt = (text: string, maxLength: number = EXCERPT_MAX_LENGTH): string => {
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  const cut = text.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > 0 ? cut.slice(0, lastSpace) : cut).replace(/[\s,.;:!?-]+$/, '')}…`;
+};
+
+// Word count, reading time and automatic excerpt stored with each post
+export const computeContentStats = (content: string) => {
+  const text = markdownToPlainText(content);
+  const wordCount = text ? text.split(' ').length : 0;
+
+  return {
+    wordCount,
+    readingTimeMinutes: Math.max(1, Math.ceil(wordCount / WORDS_PER_MINUTE)),
+    autoExcerpt: truncateExcerpt(text),
+  };
+};
+
+// Fields to write when a post's content or excerpt changes. An author-supplied excerpt is
+// kept until it is cleared with null; otherwise the excerpt follows the content.
+export const buildContentStatsData = (
+  content: string,
+  excerpt: string | null | undefined,
+  existing?: { excerpt: string | null; hasCustomExcerpt: boolean }
+) => {
+  const { wordCount, readingTimeMinutes, autoExcerpt } = computeContentStats(content);
+  const data = { wordCount, readingTimeMinutes, excerpt: autoExcerpt, hasCustomExcerpt: false };
+
+  if (excerpt) {
+    return { ...data, excerpt, hasCustomExcerpt: true };
+  }
+  if (excerpt === undefined && existing?.hasCustomExcerpt) {
+    return { ...data, excerpt: existing.excerpt, hasCustomExcerpt: true };
+  }
+  return data;
+};
+
+// Relations included in every post listing (GET /api/posts and the per-user listing)
+export const postListInclude = Prisma.validator<Prisma.PostInclude>()({
+  author: {
+    select: {
+      id: true,
+      username: true,
+    },
+  },
+  category: {
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+    },
+  },
+  tags: {
+    include: {
+      tag: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  },
+});
+
+// List responses leave out the full content unless ?includeContent=true is passed
+export const shouldIncludeContent = (query: Record<string, unknown>): boolean => query.includeContent === 'true';
+
+export const omitContent = <T extends { content: string }>(post: T, includeContent: boolean): T | Omit<T, 'content'> => {
+  if (includeContent) {
+    return post;
+  }
+  const { content, ...rest } = post;
+  return rest;
+};
+
+// Adds like counts and flattens tags for list responses
+export const formatPostList = async <T extends { id: string; content: string; tags: { tag: { id: string; name: string } }[] }>(
+  posts: T[],
+  includeContent = false
+) => {
+  return Promise.all(
+    posts.map(async (post) => {
+      const likeCount = await prisma.postLike.count({
+        where: { postId: post.id },
+      });
+      return {
+        ...omitContent(post, includeContent),
+        likeCount,
+        tags: post.tags.map((postTag) => postTag.tag),
+      };
+    })
+  );
+};
+
+// Renders a post's Markdown once per distinct content, keyed by a hash of the content itself
+export const getRenderedContent = (post: { id: string; content: string }): RenderedMarkdown => {
+  const contentHash = crypto.createHash('sha256').update(post.content).digest('hex');
+  const cacheKey = `${post.id}:${contentHash}`;
+
+  const cached = renderedContentCache.get<RenderedMarkdown>(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const rendered = renderMarkdown(post.content);
+  renderedContentCache.set(cacheKey, rendered);
+  return rendered;
+};
@@ -0,0 +1,77 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { POST_REVISION_RETENTION } from '../constants/posts';
+
+const prisma = new PrismaClient();
+
+// Number of revisions kept per post; 0 keeps every revision
+export const getRevisionRetention = (): number => {
+  const configured = parseInt(process.env.POST_REVISION_RETENTION as string);
+  return Number.isNaN(configured) || configured < 0 ? POST_REVISION_RETENTION : configured;
+};
+
+// Snapshots the post's current state as its next revision and prunes old revisions. Run it
+// in the transaction that changed the post: the post row stays locked until that commits,
+// so overlapping edits are numbered one after the other.
+export const recordRevision = async (
+  postId: string,
+  editorId: string | null,
+  tx: Prisma.TransactionClient = prisma
+): Promise<void> => {
+  await tx.$queryRaw`SELECT "id" FROM "posts" WHERE "id" = ${postId} FOR UPDATE`;
+
+  const post = await tx.post.findUnique({
+    where: { id: postId },
+    include: { tags: { select: { tagId: true } } },
+  });
+
+  if (!post) {
+    return;
+  }
+
+  const { _max } = await tx.postRevision.aggregate({
+    where: { postId },
+    _max: { number: true },
+  });
+  const number = (_max.number ?? 0) + 1;
+
+  await tx.postRevision.create({
+    data: {
+      postId,
+      number,
+      title: post.title,
+      content: post.content,
+      metaTitle: post.metaTitle,
+      metaDescription: post.metaDescription,
+      ogImage: post.ogImage,
+      categoryId: post.categoryId,
+      tagIds: post.tags.map((postTag) => postTag.tagId),
+      editorId,
+    },
+  });
+
+  const retention = getRevisionRetention();
+  if (retention > 0 && number > retention) {
+    await tx.postRevision.deleteMany({
+      where: { postId, number: { lte: number - retention } },
+    });
+  }
+};
+
+// Posts created before revisions existed get their pre-edit state recorded first,
+// attributed to the author, so the first update can still be diffed and undone
+export const ensureBaselineRevision = async (
+  postId: string,
+  authorId: string,
+  tx: Prisma.TransactionClient = prisma
+): Promise<void> => {
+  await tx.$queryRaw`SELECT "id" FROM "posts" WHERE "id" = ${postId} FOR UPDATE`;
+
+  const existing = await tx.postRevision.findFirst({
+    where: { postId },
+    select: { id: true },
+  });
+
+  if (!existing) {
+    await recordRevision(postId, authorId, tx);
+  }
+};
@@ -0,0 +1,74 @@
+import { PrismaClient } from '@prisma/client';
+import { invalidateCache } from '../middleware/cache';
+import { POST_SCHEDULER_INTERVAL_MS } from '../constants/posts';
+import { getTrashRetentionDays } from './posts';
+
+const prisma = new PrismaClient();
+
+// Publishes every scheduled post whose publish time has passed and returns how many were published
+export const publishDuePosts = async (now: Date = new Date()): Promise<number> => {
+  const duePosts = await prisma.post.findMany({
+    where: {
+      published: false,
+      publishAt: { lte: now },
+      deletedAt: null,
+    },
+    select: {
+      id: true,
+      slug: true,
+      authorId: true,
+    },
+  });
+
+  if (duePosts.length === 0) {
+    return 0;
+  }
+
+  // Re-check the schedule in the update so a post cancelled or rescheduled meanwhile is left alone
+  const { count } = await prisma.post.updateMany({
+    where: {
+      id: { in: duePosts.map((post) => post.id) },
+      published: false,
+      publishAt: { lte: now },
+    },
+    data: { published: true, version: { increment: 1 } },
+  });
+
+  invalidateCache.invalidateListCaches();
+  duePosts.forEach((post) => {
+    invalidateCache.invalidatePostCache(post.slug);
+    invalidateCache.invalidateUserCaches(post.authorId);
+  });
+
+  return count;
+};
+
+// Permanently deletes posts that have been in the trash longer than the retention period
+export const purgeTrashedPosts = async (now: Date = new Date()): Promise<number> => {
+  const cutoff = new Date(now.getTime() - getTrashRetentionDays() * 24 * 60 * 60 * 1000);
+
+  const { count } = await prisma.post.deleteMany({
+    where: {
+      deletedAt: { lte: cutoff },
+    },
+  });
+
+  return count;
+};
+
+export const startPostScheduler = (intervalMs: number = POST_SCHEDULER_INTERVAL_MS): NodeJS.Timeout => {
+  const run = () => {
+    publishDuePosts().catch((error) => {
+      console.error('Failed to publish scheduled posts:', error);
+    });
+    purgeTrashedPosts().catch((error) => {
+      console.error('Failed to purge trashed posts:', error);
+    });
+  };
+
+  run();
+  const timer = setInterval(run, intervalMs);
+  // Don't keep the process alive just for the scheduler
+  timer.unref();
+  return timer;
+};
@@ -0,0 +1,145 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { SEARCH_SNIPPET_OPTIONS } from '../constants/posts';
+import { postListInclude, formatPostList } from './posts';
+
+const prisma = new PrismaClient();
+
+// Must match the text search configuration used to build posts."searchVector"
+const SEARCH_CONFIG = 'english';
+
+export interface PostSearchFilters {
+  authorId?: string;
+  categoryId?: string;
+  tag?: string;
+  from?: Date;
+  to?: Date;
+}
+
+interface SearchHit {
+  id: string;
+  rank: number;
+  titleHighlight: string;
+  contentHighlight: string;
+}
+
+const toWords = (text: string): string[] => (text.match(/[\p{L}\p{N}]+/gu) || []).map((word) => word.toLowerCase());
+
+const toPhrase = (words: string[], prefix = false): string => {
+  const lexemes = words.map((word, index) => (prefix && index === words.length - 1 ? `'${word}':*` : `'${word}'`));
+  return lexemes.length > 1 ? `(${lexemes.join(' <-> ')})` : lexemes[0];
+};
+
+// Turns user input into a to_tsquery expression. Every term must match; "quoted words" must
+// appear as a phrase and a trailing * matches prefixes (postgr* finds postgres and postgresql).
+// Punctuation is dropped, so the result is always a valid tsquery. Returns null when no words remain.
+export const buildSearchQuery = (input: string): string | null => {
+  const clauses: string[] = [];
+
+  for (const match of input.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    const [, phrase, term] = match;
+
+    if (phrase !== undefined) {
+      const words = toWords(phrase);
+      if (words.length > 0) {
+        clauses.push(toPhrase(words));
+      }
+      continue;
+    }
+
+    const words = toWords(term);
+    if (words.length === 0) {
+      continue;
+    }
+    clauses.push(toPhrase(words, term.endsWith('*')));
+  }
+
+  return clauses.length > 0 ? clauses.join(' & ') : null;
+};
+
+// Snippets are built from raw title and content, so escape them before <mark> tags are added
+const escapedHtml = (column: Prisma.Sql): Prisma.Sql =>
+  Prisma.sql`replace(replace(replace(${column}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;')`;
+
+const buildSearchWhere = (filters: PostSearchFilters): Prisma.Sql => {
+  // Same visibility rules as publicPostWhere(). Timestamps are stored as UTC without a time
+  // zone, so they are compared with the current UTC time regardless of the session's zone.
+  const conditions: Prisma.Sql[] = [
+    Prisma.sql`p."searchVector" @@ q.query`,
+    Prisma.sql`p."deletedAt" IS NULL`,
+    Prisma.sql`(p."published" = true OR p."publishAt" <= (NOW() AT TIME ZONE 'UTC'))`,
+  ];
+
+  if (filters.authorId) {
+    conditions.push(Prisma.sql`p."authorId" = ${filters.authorId}`);
+  }
+  if (filters.categoryId) {
+    conditions.push(Prisma.sql`p."categoryId" = ${filters.categoryId}`);
+  }
+  if (filters.tag) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "post_tags" pt
+      JOIN "tags" t ON t."id" = pt."tagId"
+      WHERE pt."postId" = p."id" AND t."name" = ${filters.tag.toLowerCase()}
+    )`);
+  }
+  if (filters.from) {
+    conditions.push(Prisma.sql`p."createdAt" >= ${filters.from}`);
+  }
+  if (filters.to) {
+    conditions.push(Prisma.sql`p."createdAt" <= ${filters.to}`);
+  }
+
+  return Prisma.join(conditions, ' AND ');
+};
+
+// Ranks public posts against a query from buildSearchQuery. Title matches weigh most, then
+// tags, then content; ties fall back to newest first and then id so pages never overlap.
+export const searchPosts = async (
+  tsQuery: string,
+  filters: PostSearchFilters,
+  page: number,
+  limit: number,
+  includeContent = false
+) => {
+  const query = Prisma.sql`to_tsquery(${SEARCH_CONFIG}::regconfig, ${tsQuery}) AS q(query)`;
+  const where = buildSearchWhere(filters);
+
+  const hits = await prisma.$queryRaw<SearchHit[]>`
+    SELECT
+      p."id",
+      ts_rank_cd(p."searchVector", q.query) AS "rank",
+      ts_headline(${SEARCH_CONFIG}::regconfig, ${escapedHtml(Prisma.sql`p."title"`)}, q.query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS "titleHighlight",
+      ts_headline(${SEARCH_CONFIG}::regconfig, ${escapedHtml(Prisma.sql`p."content"`)}, q.query, ${SEARCH_SNIPPET_OPTIONS}) AS "contentHighlight"
+    FROM "posts" p, ${query}
+    WHERE ${where}
+    ORDER BY "rank" DESC, p."createdAt" DESC, p."id" ASC
+    OFFSET ${(page - 1) * limit}
+    LIMIT ${limit}
+  `;
+
+  const [{ count }] = await prisma.$queryRaw<{ count: bigint }[]>`
+    SELECT COUNT(*) AS "count"
+    FROM "posts" p, ${query}
+    WHERE ${where}
+  `;
+
+  const posts = await prisma.post.findMany({
+    where: { id: { in: hits.map((hit) => hit.id) } },
+    include: postListInclude,
+  });
+  const formatted = await formatPostList(posts, includeContent);
+  const postsById = new Map(formatted.map((post) => [post.id, post]));
+
+  const results = hits
+    .filter((hit) => postsById.has(hit.id))
+    .map((hit) => ({
+      ...postsById.get(hit.id)!,
+      rank: hit.rank,
+      highlights: {
+        title: hit.titleHighlight,
+        content: hit.contentHighlight,
+      },
+    }));
+
+  return { results, total: Number(count) };
+};
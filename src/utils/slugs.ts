@@ -0,0 +1,98 @@
+import crypto from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { SLUG_ALLOCATION_ATTEMPTS, SLUG_SUFFIX_CANDIDATES, RESERVED_POST_SLUGS } from '../constants/posts';
+import { publicPostWhere } from './posts';
+
+const prisma = new PrismaClient();
+
+// A slug is taken only while it is another post's current slug. Old slugs kept for
+// redirects can be reused; the redirect is dropped when that happens.
+export const isSlugAvailable = async (slug: string, postId?: string): Promise<boolean> => {
+  const owner = await prisma.post.findUnique({
+    where: { slug },
+    select: { id: true },
+  });
+  return !owner || owner.id === postId;
+};
+
+// The write lost a race for a slug to another post
+export const isSlugConflict = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  error.code === 'P2002' &&
+  Array.isArray(error.meta?.target) &&
+  (error.meta?.target as string[]).includes('slug');
+
+// Last resort once the numbered slugs are taken or keep losing races
+const randomSlug = (root: string): string => `${root}-${crypto.randomBytes(3).toString('hex')}`;
+
+// First free slug among base, base-2, ... base-N. Titles without any usable characters
+// fall back to "post". The post's own current slug counts as free. Only that bounded set
+// of candidates is looked up; when all of them are taken the slug gets a random suffix.
+export const allocateSlug = async (base: string, postId?: string): Promise<string> => {
+  const root = base || 'post';
+  const candidates = [root];
+  for (let suffix = 2; suffix <= SLUG_SUFFIX_CANDIDATES; suffix++) {
+    candidates.push(`${root}-${suffix}`);
+  }
+
+  const existing = await prisma.post.findMany({
+    where: {
+      slug: { in: candidates },
+      ...(postId ? { NOT: { id: postId } } : {}),
+    },
+    select: { slug: true },
+  });
+  const taken = new Set([...existing.map((post) => post.slug), ...RESERVED_POST_SLUGS]);
+
+  return candidates.find((slug) => !taken.has(slug)) ?? randomSlug(root);
+};
+
+// Runs write with a free slug derived from base. Concurrent writes can pick the same slug;
+// the unique index rejects all but one, and the others retry with the next free slug and
+// finally with a random suffix.
+export const writeWithUniqueSlug = async <T>(
+  base: string,
+  write: (slug: string) => Promise<T>,
+  postId?: string
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    const slug = attempt < SLUG_ALLOCATION_ATTEMPTS
+      ? await allocateSlug(base, postId)
+      : randomSlug(base || 'post');
+
+    try {
+      return await write(slug);
+    } catch (error) {
+      if (!isSlugConflict(error) || attempt >= SLUG_ALLOCATION_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+};
+
+// Keeps a post's previous slug so links to it redirect to the new one
+export const recordSlugChange = async (postId: string, oldSlug: string, newSlug: string): Promise<void> => {
+  if (oldSlug === newSlug) {
+    return;
+  }
+
+  await prisma.$transaction([
+    prisma.postSlugHistory.deleteMany({
+      where: { slug: newSlug },
+    }),
+    prisma.postSlugHistory.upsert({
+      where: { slug: oldSlug },
+      create: { slug: oldSlug, postId },
+      update: { postId, createdAt: new Date() },
+    }),
+  ]);
+};
+
+// Current slug of the public post that used to live at the given slug, if any
+export const findSlugRedirect = async (slug: string): Promise<string | null> => {
+  const history = await prisma.postSlugHistory.findFirst({
+    where: { slug, post: publicPostWhere() },
+    select: { post: { select: { slug: true } } },
+  });
+  return history ? history.post.slug : null;
+};